@@ -0,0 +1,51 @@
+import {
+	type GatewayInteractionCreateDispatchData,
+	GatewayDispatchEvents,
+	InteractionType
+} from "discord-api-types/v10";
+import type { Client } from "kodkord";
+
+import { type CollectorSettings, Collector } from "../core/collector";
+import { Interaction } from "../entities/interaction";
+
+/** Collects the component interactions of a message, such as button clicks and select menus. */
+export class ComponentCollector extends Collector<
+	GatewayDispatchEvents.InteractionCreate,
+	Interaction<InteractionType.MessageComponent>
+> {
+	/** The Id of the message whose component interactions are collected. */
+	public readonly messageId: string;
+
+	/**
+	 * Creates a component collector and starts collecting right away.
+	 *
+	 * @param client The client whose interactions are collected.
+	 * @param messageId The Id of the message whose component interactions are collected.
+	 * @param settings The settings of the collector.
+	 */
+	public constructor(
+		client: Client,
+		messageId: string,
+		settings?: CollectorSettings<Interaction<InteractionType.MessageComponent>>
+	) {
+		super(client, GatewayDispatchEvents.InteractionCreate, settings);
+		this.messageId = messageId;
+	}
+
+	/**
+	 * Resolves a component interaction of the message into an `Interaction` instance.
+	 *
+	 * @param data The data of the `INTERACTION_CREATE` dispatch.
+	 * @returns The Id and the interaction, or `undefined` if it isn't a component interaction of
+	 * the message.
+	 */
+	protected resolve(
+		data: GatewayInteractionCreateDispatchData
+	): [id: string, item: Interaction<InteractionType.MessageComponent>] | undefined {
+		if (data.type !== InteractionType.MessageComponent || data.message.id !== this.messageId) {
+			return undefined;
+		}
+
+		return [data.id, new Interaction(this.client.rest, data)];
+	}
+}
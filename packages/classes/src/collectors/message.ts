@@ -0,0 +1,50 @@
+import {
+	type GatewayMessageCreateDispatchData,
+	GatewayDispatchEvents,
+	type MessageType
+} from "discord-api-types/v10";
+import type { Client } from "kodkord";
+
+import { type CollectorSettings, Collector } from "../core/collector";
+import { Message } from "../entities/message";
+
+/** Collects the messages sent in a channel. */
+export class MessageCollector extends Collector<
+	GatewayDispatchEvents.MessageCreate,
+	Message<MessageType>
+> {
+	/** The Id of the channel whose messages are collected. */
+	public readonly channelId: string;
+
+	/**
+	 * Creates a message collector and starts collecting right away.
+	 *
+	 * @param client The client whose messages are collected.
+	 * @param channelId The Id of the channel whose messages are collected.
+	 * @param settings The settings of the collector.
+	 */
+	public constructor(
+		client: Client,
+		channelId: string,
+		settings?: CollectorSettings<Message<MessageType>>
+	) {
+		super(client, GatewayDispatchEvents.MessageCreate, settings);
+		this.channelId = channelId;
+	}
+
+	/**
+	 * Resolves a created message of the channel into a `Message` instance.
+	 *
+	 * @param data The data of the `MESSAGE_CREATE` dispatch.
+	 * @returns The Id and the message, or `undefined` if it was sent in another channel.
+	 */
+	protected resolve(
+		data: GatewayMessageCreateDispatchData
+	): [id: string, item: Message<MessageType>] | undefined {
+		if (data.channel_id !== this.channelId) {
+			return undefined;
+		}
+
+		return [data.id, new Message(this.client.rest, data)];
+	}
+}
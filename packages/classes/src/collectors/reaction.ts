@@ -0,0 +1,53 @@
+import {
+	type GatewayMessageReactionAddDispatchData,
+	GatewayDispatchEvents
+} from "discord-api-types/v10";
+import type { Client } from "kodkord";
+
+import { type CollectorSettings, Collector } from "../core/collector";
+
+/**
+ * Collects the reactions added to a message.
+ *
+ * Reactions are identified by their emoji and the user who added them, in the `emoji:user`
+ * format, where the emoji is its Id for custom emojis and its name otherwise.
+ */
+export class ReactionCollector extends Collector<
+	GatewayDispatchEvents.MessageReactionAdd,
+	GatewayMessageReactionAddDispatchData
+> {
+	/** The Id of the message whose reactions are collected. */
+	public readonly messageId: string;
+
+	/**
+	 * Creates a reaction collector and starts collecting right away.
+	 *
+	 * @param client The client whose reactions are collected.
+	 * @param messageId The Id of the message whose reactions are collected.
+	 * @param settings The settings of the collector.
+	 */
+	public constructor(
+		client: Client,
+		messageId: string,
+		settings?: CollectorSettings<GatewayMessageReactionAddDispatchData>
+	) {
+		super(client, GatewayDispatchEvents.MessageReactionAdd, settings);
+		this.messageId = messageId;
+	}
+
+	/**
+	 * Resolves a reaction added to the message.
+	 *
+	 * @param data The data of the `MESSAGE_REACTION_ADD` dispatch.
+	 * @returns The Id and the reaction, or `undefined` if it was added to another message.
+	 */
+	protected resolve(
+		data: GatewayMessageReactionAddDispatchData
+	): [id: string, item: GatewayMessageReactionAddDispatchData] | undefined {
+		if (data.message_id !== this.messageId) {
+			return undefined;
+		}
+
+		return [`${data.emoji.id ?? data.emoji.name}:${data.user_id}`, data];
+	}
+}
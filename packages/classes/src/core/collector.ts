@@ -0,0 +1,212 @@
+import type { GatewayDispatchEvents } from "discord-api-types/v10";
+
+import {
+	type DispatchEvents,
+	type ClientEvents,
+	type Listener,
+	type Client,
+	Dictionary,
+	Emitter
+} from "kodkord";
+
+/** Settings of a collector. */
+export interface CollectorSettings<Item> {
+	/** Checks each item, only collecting those it accepts. */
+	filter?: (item: Item) => boolean;
+
+	/** The number of items after which the collector ends with the `limit` reason. */
+	max?: number;
+
+	/** The time in milliseconds after which the collector ends with the `time` reason. */
+	time?: number;
+
+	/** The time in milliseconds without collecting after which the collector ends with the `idle` reason. */
+	idle?: number;
+}
+
+/**
+ * The reason a collector ended.
+ *
+ * - `limit`: The maximum number of items was collected.
+ * - `time`: The time of the collector ran out.
+ * - `idle`: Nothing was collected for the idle time.
+ * - `user`: The collector was stopped manually, unless a custom reason was given.
+ */
+export type CollectorEndReason = "limit" | "time" | "idle" | "user";
+
+/** Events emitted by a collector. */
+export interface CollectorEvents<Item> {
+	/** Emitted for every item collected. */
+	collect: [item: Item];
+
+	/** Emitted once the collector ends, along with every item collected and the reason. */
+	end: [collected: Dictionary<string, Item>, reason: CollectorEndReason | (string & {})];
+}
+
+/**
+ * Class that represents a base collector of Gateway dispatch events.
+ *
+ * Collectors listen to a dispatch event of the client, resolve the events they are interested
+ * in into items, and gather the items accepted by the filter until they end.
+ *
+ * @template Event The dispatch event the collector listens to.
+ * @template Item The items the collector gathers.
+ */
+export abstract class Collector<Event extends GatewayDispatchEvents, Item> extends Emitter<
+	CollectorEvents<Item>
+> {
+	/** The client whose events are collected. */
+	public readonly client: Client;
+
+	/** The settings of the collector. */
+	public readonly settings: CollectorSettings<Item>;
+
+	/** The items collected so far, by Id. */
+	public readonly collected: Dictionary<string, Item>;
+
+	/** The reason the collector ended, or `undefined` while it is collecting. */
+	public reason?: CollectorEndReason | (string & {});
+
+	/** The dispatch event the collector listens to. */
+	private readonly event: Event;
+
+	/** The listener registered on the client. */
+	private readonly listener: Listener<ClientEvents[Event]>;
+
+	/** The timer ending the collector once its time runs out. */
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	private timeout?: Timer;
+
+	/** The timer ending the collector once it is idle for too long. */
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	private idleTimeout?: Timer;
+
+	/**
+	 * Creates a collector and starts collecting right away.
+	 *
+	 * @param client The client whose events are collected.
+	 * @param event The dispatch event to listen to.
+	 * @param settings The settings of the collector.
+	 */
+	protected constructor(client: Client, event: Event, settings: CollectorSettings<Item> = {}) {
+		super();
+		this.client = client;
+		this.settings = settings;
+		this.collected = new Dictionary(undefined, undefined, "Collected");
+		this.event = event;
+		this.listener = (...args) => {
+			this.handle(args[0] as DispatchEvents[Event][0]);
+		};
+
+		client.on(event, this.listener);
+
+		if (settings.time !== undefined) {
+			this.timeout = setTimeout(
+				() => {
+					this.stop("time");
+				},
+				settings.time
+			);
+		}
+
+		this.idle();
+	}
+
+	/**
+	 * Resolves the data of an event into the item to collect and its Id.
+	 *
+	 * @param data The data of the dispatch event.
+	 * @returns The Id and the item, or `undefined` if the event isn't relevant to the collector.
+	 */
+	protected abstract resolve(data: DispatchEvents[Event][0]): [id: string, item: Item] | undefined;
+
+	/**
+	 * Stops the collector, removing its listener and emitting the `end` event.
+	 *
+	 * Does nothing if the collector already ended.
+	 *
+	 * @param reason The reason the collector ended. Defaults to `user`.
+	 */
+	public stop(reason: CollectorEndReason | (string & {}) = "user"): void {
+		if (this.ended()) {
+			return;
+		}
+
+		clearTimeout(this.timeout);
+		clearTimeout(this.idleTimeout);
+		this.client.off(this.event, this.listener);
+
+		this.reason = reason;
+		this.emit("end", this.collected, reason);
+	}
+
+	/**
+	 * Waits for the collector to end.
+	 *
+	 * @returns A promise resolving to every item collected and the reason the collector ended.
+	 */
+	public async wait(): Promise<CollectorEvents<Item>["end"]> {
+		if (this.reason !== undefined) {
+			return [this.collected, this.reason];
+		}
+
+		return this.waitFor("end");
+	}
+
+	/**
+	 * Checks if the collector ended.
+	 *
+	 * @returns `true` if the collector ended, otherwise `false`.
+	 */
+	public ended(): boolean {
+		return this.reason !== undefined;
+	}
+
+	/**
+	 * Collects the item of an event if it is relevant and passes the filter.
+	 *
+	 * @param data The data of the dispatch event.
+	 */
+	private handle(data: DispatchEvents[Event][0]): void {
+		if (this.ended()) {
+			return;
+		}
+
+		const RESOLVED = this.resolve(data);
+
+		if (RESOLVED === undefined) {
+			return;
+		}
+
+		const [ID, ITEM] = RESOLVED;
+
+		if (this.settings.filter && !this.settings.filter(ITEM)) {
+			return;
+		}
+
+		this.collected.set(ID, ITEM);
+		this.emit("collect", ITEM);
+
+		if (this.settings.max !== undefined && this.collected.size >= this.settings.max) {
+			this.stop("limit");
+			return;
+		}
+
+		this.idle();
+	}
+
+	/** Restarts the idle timer of the collector, if it has an idle time. */
+	private idle(): void {
+		if (this.settings.idle === undefined) {
+			return;
+		}
+
+		clearTimeout(this.idleTimeout);
+		this.idleTimeout = setTimeout(
+			() => {
+				this.stop("idle");
+			},
+			this.settings.idle
+		);
+	}
+}
@@ -7,7 +7,7 @@ import {
 	ChannelType,
 	Routes
 } from "discord-api-types/v10";
-import { type APIRequestParameters, Warn } from "kodkord";
+import { type APIRequestParameters, type RawFile, Warn } from "kodkord";
 import { Entity } from "@entity";
 
 import { Message } from "./message";
@@ -34,13 +34,15 @@ export class Channel<Type extends ChannelType> extends Entity<{ type: Type } & A
 	}
 
 	public async postMessage(
-		body: RESTPostAPIChannelMessageJSONBody
+		body: RESTPostAPIChannelMessageJSONBody,
+		files?: RawFile[]
 	): Promise<Message<MessageType> | undefined> {
 		try {
 			return new Message(
 				this.rest,
 				await this.rest.post<APIMessage>(Routes.channelMessages(this.raw.id), {
-					body
+					body,
+					files
 				} as APIRequestParameters)
 			);
 		} catch (error) {
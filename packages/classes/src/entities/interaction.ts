@@ -9,7 +9,7 @@ import {
 	type APIGuild,
 	Routes
 } from "discord-api-types/v10";
-import { type APIRequestParameters, type Rest, Warn } from "kodkord";
+import { type APIRequestParameters, type RawFile, type Rest, Warn } from "kodkord";
 import { Entity } from "@entity";
 
 import { Channel } from "./channel";
@@ -81,7 +81,7 @@ export class Interaction<Type extends InteractionType> extends Entity<
 		return false;
 	}
 
-	public async respond(body: APIInteractionResponse): Promise<boolean> {
+	public async respond(body: APIInteractionResponse, files?: RawFile[]): Promise<boolean> {
 		if (this.completed) {
 			new Warn("Rest", `The interaction with id ${this.raw.id} has already been completed`).warn();
 			return false;
@@ -89,7 +89,8 @@ export class Interaction<Type extends InteractionType> extends Entity<
 
 		try {
 			await this.rest.post(Routes.interactionCallback(this.raw.id, this.raw.token), {
-				body
+				body,
+				files
 			} as { body: APIInteractionResponse } & APIRequestParameters);
 			this.completed = true;
 			return true;
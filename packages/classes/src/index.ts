@@ -1,3 +1,4 @@
+export * from "./core/collector";
 export * from "./core/entity";
 
 export * from "./entities/interaction";
@@ -5,3 +6,7 @@ export * from "./entities/channel";
 export * from "./entities/message";
 export * from "./entities/image";
 export * from "./entities/user";
+
+export * from "./collectors/component";
+export * from "./collectors/reaction";
+export * from "./collectors/message";
@@ -0,0 +1,292 @@
+import {
+	type GatewayMessageReactionAddDispatchData,
+	type GatewayTypingStartDispatchData,
+	GatewayDispatchEvents,
+	InteractionType
+} from "discord-api-types/v10";
+import { type ClientEvents, Client } from "kodkord";
+import { describe, expect, it } from "bun:test";
+
+import { type CollectorSettings, Collector } from "../src/core/collector";
+import { ComponentCollector } from "../src/collectors/component";
+import { ReactionCollector } from "../src/collectors/reaction";
+import { MessageCollector } from "../src/collectors/message";
+import { Interaction } from "../src/entities/interaction";
+
+/** Collects the Ids of the users starting to type in a channel. */
+class TypingCollector extends Collector<GatewayDispatchEvents.TypingStart, string> {
+	/**
+	 * Creates a typing collector and starts collecting right away.
+	 *
+	 * @param client The client whose events are collected.
+	 * @param settings The settings of the collector.
+	 */
+	public constructor(client: Client, settings?: CollectorSettings<string>) {
+		super(client, GatewayDispatchEvents.TypingStart, settings);
+	}
+
+	/**
+	 * Resolves the typing users of the channel with Id `1`.
+	 *
+	 * @param data The data of the `TYPING_START` dispatch.
+	 * @returns The Id of the user twice, or `undefined` if it types in another channel.
+	 */
+	protected resolve(data: GatewayTypingStartDispatchData): [id: string, item: string] | undefined {
+		return data.channel_id === "1" ? [data.user_id, data.user_id] : undefined;
+	}
+}
+
+/**
+ * Creates a client that doesn't connect anywhere.
+ *
+ * @returns The new client.
+ */
+function client(): Client {
+	return new Client({ token: "token", intents: 0, sweepInterval: 0 });
+}
+
+/**
+ * Emits a dispatch through a client, without checking its data against the event.
+ *
+ * @param target The client to emit the dispatch through.
+ * @param event The name of the event.
+ * @param data The data of the event.
+ */
+function dispatch<Event extends GatewayDispatchEvents>(
+	target: Client,
+	event: Event,
+	data: object
+): void {
+	target.events.emit(
+		event,
+		...([data, { sequence: 1, timestamp: 0 }] as unknown as ClientEvents[Event])
+	);
+}
+
+/**
+ * Emits a `TYPING_START` dispatch through a client.
+ *
+ * @param target The client to emit the dispatch through.
+ * @param user The Id of the typing user.
+ * @param channel The Id of the channel the user types in. Defaults to `1`.
+ */
+function type(target: Client, user: string, channel = "1"): void {
+	dispatch(target, GatewayDispatchEvents.TypingStart, {
+		channel_id: channel,
+		user_id: user,
+		timestamp: 0
+	});
+}
+
+describe("Collector", () => {
+	it("Should collect the accepted items until the maximum is reached", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new TypingCollector(CLIENT, { max: 2, filter: (user) => user !== "3" });
+		const COLLECTED: string[] = [];
+
+		COLLECTOR.on("collect", (user) => {
+			COLLECTED.push(user);
+		});
+
+		type(CLIENT, "2", "9");
+		type(CLIENT, "3");
+		type(CLIENT, "4");
+		type(CLIENT, "5");
+		type(CLIENT, "6");
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("limit");
+		expect(COLLECTED).toEqual(["4", "5"]);
+		expect([...ITEMS.keys()]).toEqual(["4", "5"]);
+		expect(CLIENT.events.listeners(GatewayDispatchEvents.TypingStart)).toBe(0);
+	});
+
+	it("Should end once the time runs out", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new TypingCollector(CLIENT, { time: 30 });
+
+		type(CLIENT, "2");
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("time");
+		expect(ITEMS.size).toBe(1);
+	});
+
+	it("Should end once nothing is collected for the idle time", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new TypingCollector(CLIENT, { idle: 50 });
+		const START = performance.now();
+
+		await new Promise((resolve) => {
+			setTimeout(resolve, 30);
+		});
+		// Collecting restarts the idle time.
+		type(CLIENT, "2");
+
+		const [, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("idle");
+		expect(performance.now() - START).toBeGreaterThanOrEqual(70);
+	});
+
+	it("Should end with the reason it was stopped with, only once", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new TypingCollector(CLIENT);
+		const REASONS: string[] = [];
+
+		COLLECTOR.on("end", (_, reason) => {
+			REASONS.push(reason);
+		});
+
+		COLLECTOR.stop("done");
+		COLLECTOR.stop();
+		type(CLIENT, "2");
+
+		expect(COLLECTOR.ended()).toBe(true);
+		expect(REASONS).toEqual(["done"]);
+		expect(COLLECTOR.collected.size).toBe(0);
+		expect(await COLLECTOR.wait()).toEqual([COLLECTOR.collected, "done"]);
+	});
+});
+
+describe("MessageCollector", () => {
+	it("Should collect the accepted messages of its channel up to the maximum", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new MessageCollector(CLIENT, "1", {
+			max: 2,
+			filter: (message) => message.raw.content !== "ignored"
+		});
+
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, { id: "10", channel_id: "2" });
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, {
+			id: "11",
+			channel_id: "1",
+			content: "ignored"
+		});
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, { id: "12", channel_id: "1" });
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, { id: "13", channel_id: "1" });
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, { id: "14", channel_id: "1" });
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("limit");
+		expect([...ITEMS.keys()]).toEqual(["12", "13"]);
+		expect(ITEMS.get("12")?.raw).toEqual({ id: "12", channel_id: "1" } as never);
+		expect(ITEMS.get("12")?.rest).toBe(CLIENT.rest);
+	});
+
+	it("Should end once no message is collected for the idle time", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new MessageCollector(CLIENT, "1", { idle: 30 });
+
+		dispatch(CLIENT, GatewayDispatchEvents.MessageCreate, { id: "10", channel_id: "1" });
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("idle");
+		expect(ITEMS.size).toBe(1);
+	});
+});
+
+describe("ReactionCollector", () => {
+	it("Should collect the reactions of its message by emoji and user", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new ReactionCollector(CLIENT, "1", {
+			max: 3,
+			filter: (reaction) => reaction.user_id !== "9"
+		});
+		const CUSTOM = { message_id: "1", user_id: "2", emoji: { id: "5", name: "kodkord" } };
+
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, CUSTOM);
+		// The same reaction added again replaces the previous one.
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, CUSTOM);
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, {
+			message_id: "2",
+			user_id: "2",
+			emoji: { id: null, name: "👍" }
+		});
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, {
+			message_id: "1",
+			user_id: "9",
+			emoji: { id: null, name: "👍" }
+		});
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, {
+			message_id: "1",
+			user_id: "2",
+			emoji: { id: null, name: "👍" }
+		});
+		dispatch(CLIENT, GatewayDispatchEvents.MessageReactionAdd, {
+			message_id: "1",
+			user_id: "3",
+			emoji: { id: null, name: "👍" }
+		});
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("limit");
+		expect([...ITEMS.keys()]).toEqual(["5:2", "👍:2", "👍:3"]);
+		expect(ITEMS.get("5:2")).toBe(CUSTOM as GatewayMessageReactionAddDispatchData);
+	});
+
+	it("Should end once no reaction is collected for the idle time", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new ReactionCollector(CLIENT, "1", { idle: 30 });
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("idle");
+		expect(ITEMS.size).toBe(0);
+	});
+});
+
+describe("ComponentCollector", () => {
+	it("Should collect the accepted component interactions of its message", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new ComponentCollector(CLIENT, "1", {
+			max: 2,
+			filter: (interaction) => interaction.raw.data.custom_id !== "ignored"
+		});
+		const COMPONENT = (id: string, message: string, custom: string): object => ({
+			id,
+			type: InteractionType.MessageComponent,
+			message: { id: message },
+			data: { custom_id: custom }
+		});
+
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, {
+			id: "10",
+			type: InteractionType.ApplicationCommand,
+			data: {}
+		});
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, COMPONENT("11", "2", "button"));
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, COMPONENT("12", "1", "ignored"));
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, COMPONENT("13", "1", "button"));
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, COMPONENT("14", "1", "select"));
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, COMPONENT("15", "1", "button"));
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("limit");
+		expect([...ITEMS.keys()]).toEqual(["13", "14"]);
+		expect(ITEMS.get("13")).toBeInstanceOf(Interaction);
+	});
+
+	it("Should end once no interaction is collected for the idle time", async () => {
+		const CLIENT = client();
+		const COLLECTOR = new ComponentCollector(CLIENT, "1", { idle: 30 });
+
+		dispatch(CLIENT, GatewayDispatchEvents.InteractionCreate, {
+			id: "10",
+			type: InteractionType.MessageComponent,
+			message: { id: "1" },
+			data: { custom_id: "button" }
+		});
+
+		const [ITEMS, REASON] = await COLLECTOR.wait();
+
+		expect(REASON).toBe("idle");
+		expect(ITEMS.size).toBe(1);
+	});
+});
@@ -27,9 +27,12 @@ export class Bucket {
 	/** Maximum number of requests allowed per rate limit window. */
 	public limit: number;
 
-	/** Timestamp when the current rate limit window resets. */
+	/** Timestamp in milliseconds when the current rate limit window resets. */
 	public reset: number;
 
+	/** Timestamp of when the last task was added to the bucket. */
+	public lastUsed: number;
+
 	/**
 	 * Creates a new `Bucket` instance.
 	 *
@@ -42,6 +45,7 @@ export class Bucket {
 		this.remaining = limit;
 		this.limit = limit;
 		this.reset = reset;
+		this.lastUsed = Date.now();
 		this.queue = [];
 	}
 
@@ -54,12 +58,12 @@ export class Bucket {
 	 * @returns Resolves when all tasks in the queue are processed.
 	 */
 	public async process(override = false): Promise<void> {
+		// An empty queue has nothing to process, but its rate limit still applies.
 		if (this.queue.length === 0) {
-			this.resetState();
 			return;
 		}
 
-		if (this.processing && override) {
+		if (this.processing && !override) {
 			return;
 		}
 
@@ -76,13 +80,21 @@ export class Bucket {
 						setTimeout(resolve, WAIT_TIME);
 					});
 				}
-				this.resetState(); // Reset the state after the rate limit resets
+				this.refill(); // Refill the bucket after the rate limit resets, keeping the queue
 			}
 
 			const TASK = this.queue.shift();
 			if (TASK) {
 				this.remaining--;
-				await new Promise(TASK);
+				try {
+					await new Promise(TASK);
+				} catch (error) {
+					new Warn(
+						"Bucket",
+						"A task failed while being processed.",
+						(error as Error).message
+					).warn();
+				}
 			}
 		}
 
@@ -98,6 +110,8 @@ export class Bucket {
 	 * @param at Optional position to insert the task in the queue.
 	 */
 	public async add<Type>(task: Task<Type>, at?: number): Promise<void> {
+		this.lastUsed = Date.now();
+
 		if (at === undefined) {
 			this.queue.push(task);
 		} else {
@@ -107,6 +121,23 @@ export class Bucket {
 		await this.process();
 	}
 
+	/**
+	 * Removes a task from the queue before it is processed.
+	 *
+	 * @param task The task to remove.
+	 * @returns `true` if the task was waiting in the queue, otherwise `false`.
+	 */
+	public remove<Type>(task: Task<Type>): boolean {
+		const INDEX = this.queue.indexOf(task as Task<unknown>);
+
+		if (INDEX === -1) {
+			return false;
+		}
+
+		this.queue.splice(INDEX, 1);
+		return true;
+	}
+
 	/**
 	 * Resets the state of the bucket.
 	 *
@@ -120,6 +151,25 @@ export class Bucket {
 		this.reset = Date.now();
 	}
 
+	/**
+	 * Refills the bucket for a new rate limit window.
+	 *
+	 * Unlike `resetState`, the task queue is kept.
+	 */
+	public refill(): void {
+		this.remaining = this.limit;
+		this.reset = Date.now();
+	}
+
+	/**
+	 * Checks if the bucket has tasks waiting or being processed.
+	 *
+	 * @returns `true` if the bucket is busy, otherwise `false`.
+	 */
+	public busy(): boolean {
+		return this.processing || this.queue.length > 0;
+	}
+
 	/** Pauses task processing. */
 	public pause(): void {
 		this.paused = true;
@@ -0,0 +1,184 @@
+import type { RESTErrorData, RESTError } from "discord-api-types/v10";
+import type { RequestMethod } from "./rest";
+
+/** The request a REST error originated from. */
+export interface RequestData {
+	/** HTTP method of the request. */
+	method: RequestMethod;
+
+	/** API route the request was sent to. */
+	route: string;
+
+	/** The body the request was sent with, if any. */
+	body?: unknown;
+}
+
+/** An error of a single field of a request body, as reported by Discord. */
+export interface FieldError {
+	/** The path of the field, such as `embeds[0].description`. */
+	path: string;
+
+	/** The error code, such as `BASE_TYPE_MAX_LENGTH`. */
+	code: string;
+
+	/** The human-readable error message. */
+	message: string;
+}
+
+/** An unsuccessful response of the Discord API. */
+export class HTTPError extends Error {
+	/** HTTP status of the response. */
+	public readonly status: number;
+
+	/** HTTP method of the request. */
+	public readonly method: RequestMethod;
+
+	/** API route the request was sent to. */
+	public readonly route: string;
+
+	/** The body the request was sent with, if any. */
+	public readonly requestBody: unknown;
+
+	/** The body of the response, parsed as JSON when possible. */
+	public readonly responseBody: unknown;
+
+	/**
+	 * Creates a new `HTTPError` instance.
+	 *
+	 * @param message The message of the error.
+	 * @param request The request the error originated from.
+	 * @param status HTTP status of the response.
+	 * @param body The body of the response.
+	 */
+	public constructor(message: string, request: RequestData, status: number, body: unknown) {
+		super(message);
+		this.name = "HTTPError";
+		this.status = status;
+		this.method = request.method;
+		this.route = request.route;
+		this.requestBody = request.body;
+		this.responseBody = body;
+	}
+}
+
+/**
+ * An error reported by the Discord API in its JSON error format.
+ *
+ * The numeric `code` identifies the error, such as `50013` for missing permissions, and
+ * `errors` lists the invalid fields of the request body, if any.
+ */
+export class DiscordAPIError extends HTTPError {
+	/** Discord's numeric JSON error code. */
+	public readonly code: number;
+
+	/** The errors of the fields of the request body, flattened from Discord's error tree. */
+	public readonly errors: FieldError[];
+
+	/**
+	 * Creates a new `DiscordAPIError` instance.
+	 *
+	 * @param request The request the error originated from.
+	 * @param status HTTP status of the response.
+	 * @param body The JSON error of the response.
+	 */
+	public constructor(request: RequestData, status: number, body: RESTError) {
+		const ERRORS = body.errors === undefined
+			? []
+			: flattenErrors(body.errors);
+
+		super(
+			[
+				`${body.message} (${body.code})`,
+				...ERRORS.map((error) => `${error.path}[${error.code}]: ${error.message}`)
+			].join("\n"),
+			request,
+			status,
+			body
+		);
+
+		this.name = "DiscordAPIError";
+		this.code = body.code;
+		this.errors = ERRORS;
+	}
+}
+
+/** A rate limit the request couldn't get past after retrying. */
+export class RateLimitError extends HTTPError {
+	/** The time in milliseconds Discord asked to wait before retrying. */
+	public readonly retryAfter: number;
+
+	/** Whether the rate limit is global rather than specific to the route. */
+	public readonly global: boolean;
+
+	/** The scope of the rate limit, such as `user` or `shared`, if Discord reported it. */
+	public readonly scope: string | null;
+
+	/**
+	 * Creates a new `RateLimitError` instance.
+	 *
+	 * @param request The request the error originated from.
+	 * @param body The body of the response.
+	 * @param limit The time to wait in milliseconds, whether the limit is global, and its scope.
+	 */
+	public constructor(
+		request: RequestData,
+		body: unknown,
+		limit: { retryAfter: number; global: boolean; scope: string | null }
+	) {
+		super(
+			`Rate limited on ${request.method} ${request.route}, retry after ${limit.retryAfter}ms.`,
+			request,
+			429,
+			body
+		);
+
+		this.name = "RateLimitError";
+		this.retryAfter = limit.retryAfter;
+		this.global = limit.global;
+		this.scope = limit.scope;
+	}
+}
+
+/**
+ * Checks if a response body is in Discord's JSON error format.
+ *
+ * @param body The parsed body of the response.
+ * @returns `true` if the body has a numeric code and a message, otherwise `false`.
+ */
+export function isRESTError(body: unknown): body is RESTError {
+	return (
+		typeof body === "object" &&
+		body !== null &&
+		typeof (body as RESTError).code === "number" &&
+		typeof (body as RESTError).message === "string"
+	);
+}
+
+/**
+ * Flattens Discord's tree of field errors into a list of errors with their paths.
+ *
+ * @param data The error tree, or a branch of it.
+ * @param path The path of the branch. Defaults to the root.
+ * @returns The errors of every field in the tree.
+ */
+export function flattenErrors(data: RESTErrorData, path = ""): FieldError[] {
+	if (typeof data === "string") {
+		return [{ path, code: "", message: data }];
+	}
+
+	if ("_errors" in data) {
+		return [data._errors].flat().flatMap((error) => flattenErrors(error, path));
+	}
+
+	if ("code" in data && "message" in data) {
+		return [{ path, code: String(data.code), message: String(data.message) }];
+	}
+
+	return Object.entries(data).flatMap(([key, value]) => {
+		const CHILD = /^\d+$/.test(key)
+			? `${path}[${key}]`
+			: [path, key].filter((segment) => segment !== "").join(".");
+
+		return flattenErrors(value as RESTErrorData, CHILD);
+	});
+}
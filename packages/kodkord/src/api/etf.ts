@@ -0,0 +1,468 @@
+import { Panic } from "@common/log";
+
+/** The version byte every External Term Format binary starts with. */
+const FORMAT_VERSION = 131;
+
+/** Tags of the External Term Format terms supported by the codec. */
+enum Tag {
+	NewFloat = 70,
+	SmallInteger = 97,
+	Integer = 98,
+	Float = 99,
+	Atom = 100,
+	SmallTuple = 104,
+	LargeTuple = 105,
+	Nil = 106,
+	String = 107,
+	List = 108,
+	Binary = 109,
+	SmallBig = 110,
+	LargeBig = 111,
+	SmallAtom = 115,
+	Map = 116,
+	AtomUTF8 = 118,
+	SmallAtomUTF8 = 119
+}
+
+/**
+ * Encodes a value into an External Term Format binary, as expected by the Discord Gateway.
+ *
+ * - `null` and `undefined` become the `nil` atom, and booleans the `true` and `false` atoms.
+ * - Strings become UTF-8 binaries, arrays become lists, and objects become maps.
+ * - Integers become small integers, integers or big integers depending on their size, and the
+ * remaining numbers become floats.
+ * - Object properties whose value is `undefined` are skipped, like with `JSON.stringify`.
+ *
+ * @param value The value to encode.
+ * @returns The encoded binary.
+ * @throws If the value contains something that can't be encoded, such as a function.
+ */
+export function pack(value: unknown): Buffer {
+	const PARTS: Buffer[] = [Buffer.from([FORMAT_VERSION])];
+	packTerm(value, PARTS);
+	return Buffer.concat(PARTS);
+}
+
+/**
+ * Decodes an External Term Format binary received from the Discord Gateway.
+ *
+ * Terms are decoded into the same shapes the Gateway sends in JSON:
+ *
+ * - The `nil` and `null` atoms become `null`, the `true` and `false` atoms become booleans,
+ * and the remaining atoms become strings.
+ * - Binaries are decoded as UTF-8 strings, and maps into plain objects.
+ * - Big integers outside the safe integer range, such as snowflakes, become strings.
+ * - Lists, tuples, and strings (lists of bytes) become arrays.
+ *
+ * @param data The binary to decode.
+ * @returns The decoded value.
+ * @throws If the binary is malformed or contains unsupported terms.
+ */
+export function unpack(data: Buffer): unknown {
+	if (data[0] !== FORMAT_VERSION) {
+		throw new Panic("ETF", `Unsupported format version ${data[0]}.`).toError();
+	}
+
+	const DECODER = new Decoder(data);
+	const VALUE = DECODER.term();
+
+	if (!DECODER.finished()) {
+		throw new Panic("ETF", "Unexpected data after the end of the term.").toError();
+	}
+
+	return VALUE;
+}
+
+/**
+ * Encodes a single term.
+ *
+ * @param value The value to encode.
+ * @param parts The encoded parts so far, which the term is appended to.
+ * @throws If the value can't be encoded.
+ */
+function packTerm(value: unknown, parts: Buffer[]): void {
+	if (value === null || value === undefined) {
+		parts.push(packAtom("nil"));
+		return;
+	}
+
+	switch (typeof value) {
+		case "boolean":
+			parts.push(packAtom(String(value)));
+			return;
+
+		case "number":
+			parts.push(packNumber(value));
+			return;
+
+		case "bigint":
+			parts.push(packBig(value));
+			return;
+
+		case "string": {
+			const BINARY = Buffer.from(value, "utf8");
+			parts.push(header(Tag.Binary, BINARY.length), BINARY);
+			return;
+		}
+
+		case "object":
+			if (Array.isArray(value)) {
+				packList(value, parts);
+			} else {
+				packMap(value as Record<string, unknown>, parts);
+			}
+
+			return;
+
+		default:
+			throw new Panic("ETF", `Values of type ${typeof value} can't be encoded.`).toError();
+	}
+}
+
+/**
+ * Encodes an array into a list term.
+ *
+ * @param value The array to encode.
+ * @param parts The encoded parts so far, which the list is appended to.
+ */
+function packList(value: unknown[], parts: Buffer[]): void {
+	if (value.length > 0) {
+		parts.push(header(Tag.List, value.length));
+
+		for (const ELEMENT of value) {
+			packTerm(ELEMENT, parts);
+		}
+	}
+
+	parts.push(Buffer.from([Tag.Nil]));
+}
+
+/**
+ * Encodes an object into a map term with binary keys.
+ *
+ * @param value The object to encode.
+ * @param parts The encoded parts so far, which the map is appended to.
+ */
+function packMap(value: Record<string, unknown>, parts: Buffer[]): void {
+	const ENTRIES = Object.entries(value).filter(([, entry]) => entry !== undefined);
+
+	parts.push(header(Tag.Map, ENTRIES.length));
+
+	for (const [KEY, ENTRY] of ENTRIES) {
+		packTerm(KEY, parts);
+		packTerm(ENTRY, parts);
+	}
+}
+
+/**
+ * Encodes a number into the smallest term able to hold it.
+ *
+ * @param value The number to encode.
+ * @returns The encoded term.
+ */
+function packNumber(value: number): Buffer {
+	if (!Number.isInteger(value)) {
+		const BUFFER = Buffer.alloc(9);
+		BUFFER.writeUInt8(Tag.NewFloat);
+		BUFFER.writeDoubleBE(value, 1);
+		return BUFFER;
+	}
+
+	if (value >= 0 && value <= 0xff) {
+		return Buffer.from([Tag.SmallInteger, value]);
+	}
+
+	if (value >= -0x80_00_00_00 && value <= 0x7f_ff_ff_ff) {
+		const BUFFER = Buffer.alloc(5);
+		BUFFER.writeUInt8(Tag.Integer);
+		BUFFER.writeInt32BE(value, 1);
+		return BUFFER;
+	}
+
+	return packBig(BigInt(value));
+}
+
+/**
+ * Encodes a big integer into a small or large big integer term.
+ *
+ * @param value The big integer to encode.
+ * @returns The encoded term.
+ */
+function packBig(value: bigint): Buffer {
+	const DIGITS: number[] = [];
+	let magnitude = value < 0n
+		? -value
+		: value;
+
+	while (magnitude > 0n) {
+		DIGITS.push(Number(magnitude & 0xffn));
+		magnitude >>= 8n;
+	}
+
+	const SIGN = value < 0n
+		? 1
+		: 0;
+
+	const HEADER = DIGITS.length <= 0xff
+		? Buffer.from([Tag.SmallBig, DIGITS.length, SIGN])
+		: Buffer.concat([header(Tag.LargeBig, DIGITS.length), Buffer.from([SIGN])]);
+
+	return Buffer.concat([HEADER, Buffer.from(DIGITS)]);
+}
+
+/**
+ * Encodes an atom as a UTF-8 atom term.
+ *
+ * @param name The name of the atom.
+ * @returns The encoded term.
+ */
+function packAtom(name: string): Buffer {
+	const NAME = Buffer.from(name, "utf8");
+	return Buffer.concat([Buffer.from([Tag.SmallAtomUTF8, NAME.length]), NAME]);
+}
+
+/**
+ * Builds the header of a term whose length is stored in 4 bytes.
+ *
+ * @param tag The tag of the term.
+ * @param length The length of the term.
+ * @returns The encoded header.
+ */
+function header(tag: Tag, length: number): Buffer {
+	const BUFFER = Buffer.alloc(5);
+	BUFFER.writeUInt8(tag);
+	BUFFER.writeUInt32BE(length, 1);
+	return BUFFER;
+}
+
+/** Reads the terms of an External Term Format binary, keeping track of the current offset. */
+class Decoder {
+	/** The binary being decoded. */
+	private readonly data: Buffer;
+
+	/** The offset of the next byte to read. */
+	private offset: number;
+
+	/**
+	 * Creates a new `Decoder` instance, skipping the version byte.
+	 *
+	 * @param data The binary to decode.
+	 */
+	public constructor(data: Buffer) {
+		this.data = data;
+		this.offset = 1;
+	}
+
+	/**
+	 * Checks if the whole binary was read.
+	 *
+	 * @returns `true` if there is nothing left to read, otherwise `false`.
+	 */
+	public finished(): boolean {
+		return this.offset === this.data.length;
+	}
+
+	/**
+	 * Decodes the next term.
+	 *
+	 * @returns The decoded value.
+	 * @throws If the term is malformed or unsupported.
+	 */
+	public term(): unknown {
+		const TAG = this.uint8();
+
+		switch (TAG) {
+			case Tag.SmallInteger:
+				return this.uint8();
+
+			case Tag.Integer:
+				return this.read(4).readInt32BE();
+
+			case Tag.NewFloat:
+				return this.read(8).readDoubleBE();
+
+			case Tag.Float:
+				return Number.parseFloat(this.read(31).toString("latin1"));
+
+			case Tag.Atom:
+			case Tag.AtomUTF8:
+				return this.atom(this.uint16());
+
+			case Tag.SmallAtom:
+			case Tag.SmallAtomUTF8:
+				return this.atom(this.uint8());
+
+			case Tag.SmallTuple:
+				return this.list(this.uint8());
+
+			case Tag.LargeTuple:
+				return this.list(this.uint32());
+
+			case Tag.Nil:
+				return [];
+
+			case Tag.String:
+				return [...this.read(this.uint16())];
+
+			case Tag.List:
+				return this.improperList();
+
+			case Tag.Binary:
+				return this.read(this.uint32()).toString("utf8");
+
+			case Tag.SmallBig:
+				return this.big(this.uint8());
+
+			case Tag.LargeBig:
+				return this.big(this.uint32());
+
+			case Tag.Map:
+				return this.map(this.uint32());
+
+			default:
+				throw new Panic("ETF", `Unsupported term with tag ${TAG}.`).toError();
+		}
+	}
+
+	/**
+	 * Decodes an atom into `null`, a boolean, or a string.
+	 *
+	 * @param length The length of the atom name in bytes.
+	 * @returns The decoded value.
+	 */
+	private atom(length: number): boolean | string | null {
+		const NAME = this.read(length).toString("utf8");
+
+		switch (NAME) {
+			case "nil":
+			case "null":
+				return null;
+
+			case "true":
+				return true;
+
+			case "false":
+				return false;
+
+			default:
+				return NAME;
+		}
+	}
+
+	/**
+	 * Decodes the elements of a list or tuple.
+	 *
+	 * @param length The number of elements.
+	 * @returns The decoded elements.
+	 */
+	private list(length: number): unknown[] {
+		const ELEMENTS: unknown[] = [];
+
+		for (let index = 0; index < length; index++) {
+			ELEMENTS.push(this.term());
+		}
+
+		return ELEMENTS;
+	}
+
+	/**
+	 * Decodes a list along with its tail, which is kept only if it isn't the empty list.
+	 *
+	 * @returns The decoded elements.
+	 */
+	private improperList(): unknown[] {
+		const ELEMENTS = this.list(this.uint32());
+		const TAIL = this.term();
+
+		if (!Array.isArray(TAIL) || TAIL.length > 0) {
+			ELEMENTS.push(TAIL);
+		}
+
+		return ELEMENTS;
+	}
+
+	/**
+	 * Decodes a map into a plain object, using the decoded keys as property names.
+	 *
+	 * @param length The number of entries.
+	 * @returns The decoded object.
+	 */
+	private map(length: number): Record<string, unknown> {
+		const OBJECT: Record<string, unknown> = {};
+
+		for (let index = 0; index < length; index++) {
+			const KEY = String(this.term());
+			OBJECT[KEY] = this.term();
+		}
+
+		return OBJECT;
+	}
+
+	/**
+	 * Decodes a big integer, which is a number if it is a safe integer, otherwise a string.
+	 *
+	 * @param length The number of digits (bytes) of the integer.
+	 * @returns The decoded integer.
+	 */
+	private big(length: number): number | string {
+		const SIGN = this.uint8();
+		const DIGITS = this.read(length);
+		let value = 0n;
+
+		for (let index = length - 1; index >= 0; index--) {
+			value = (value << 8n) | BigInt(DIGITS[index]);
+		}
+
+		if (SIGN !== 0) {
+			value = -value;
+		}
+
+		return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+			? Number(value)
+			: value.toString();
+	}
+
+	/**
+	 * Reads the next bytes.
+	 *
+	 * @param length The number of bytes to read.
+	 * @returns The bytes read.
+	 * @throws If the binary ends before all of the bytes could be read.
+	 */
+	private read(length: number): Buffer {
+		if (this.offset + length > this.data.length) {
+			throw new Panic("ETF", "Unexpected end of the binary.").toError();
+		}
+
+		const BYTES = this.data.subarray(this.offset, this.offset + length);
+		this.offset += length;
+		return BYTES;
+	}
+
+	/**
+	 * Reads the next unsigned 8-bit integer.
+	 *
+	 * @returns The integer read.
+	 */
+	private uint8(): number {
+		return this.read(1).readUInt8();
+	}
+
+	/**
+	 * Reads the next unsigned 16-bit integer.
+	 *
+	 * @returns The integer read.
+	 */
+	private uint16(): number {
+		return this.read(2).readUInt16BE();
+	}
+
+	/**
+	 * Reads the next unsigned 32-bit integer.
+	 *
+	 * @returns The integer read.
+	 */
+	private uint32(): number {
+		return this.read(4).readUInt32BE();
+	}
+}
@@ -0,0 +1,101 @@
+import { createInflate, type Inflate, constants } from "node:zlib";
+
+/** The suffix Discord appends to the last frame of every compressed message. */
+export const ZLIB_SUFFIX = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+/**
+ * Decompresses messages of a `zlib-stream` compressed Gateway connection.
+ *
+ * The whole connection shares a single zlib context, so every frame must go through the same
+ * `Inflator`, in order. Frames are buffered until one ends with the `Z_SYNC_FLUSH` suffix, which
+ * marks the end of a message, and then the message is decompressed.
+ */
+export class Inflator {
+	/** The streaming zlib context shared by the whole connection. */
+	private readonly inflate: Inflate;
+
+	/** Frames of the current message waiting for the `Z_SYNC_FLUSH` suffix. */
+	private frames: Buffer[];
+
+	/** The last decompression in progress, used to decompress the messages in order. */
+	private tail: Promise<unknown>;
+
+	/** Creates a new `Inflator` instance with a fresh zlib context. */
+	public constructor() {
+		this.inflate = createInflate({ chunkSize: 128 * 1_024 });
+		this.frames = [];
+		this.tail = Promise.resolve();
+	}
+
+	/**
+	 * Adds a frame received from the Gateway.
+	 *
+	 * @param frame The compressed frame.
+	 * @returns A promise resolving to the decompressed message once it is complete, or to
+	 * `undefined` if the frame doesn't end the message.
+	 */
+	public push(frame: Buffer): Promise<Buffer | undefined> {
+		this.frames.push(frame);
+
+		if (!Inflator.flushed(frame)) {
+			return Promise.resolve(undefined);
+		}
+
+		const MESSAGE = Buffer.concat(this.frames);
+		this.frames = [];
+
+		const RESULT = this.tail.then(() => this.decompress(MESSAGE));
+		this.tail = RESULT.catch(() => undefined);
+
+		return RESULT;
+	}
+
+	/** Releases the zlib context. The `Inflator` can't be used afterwards. */
+	public close(): void {
+		this.frames = [];
+		this.inflate.close();
+	}
+
+	/**
+	 * Checks whether a frame ends with the `Z_SYNC_FLUSH` suffix.
+	 *
+	 * @param frame The compressed frame.
+	 * @returns `true` if the frame ends a message, otherwise `false`.
+	 */
+	private static flushed(frame: Buffer): boolean {
+		return (
+			frame.length >= ZLIB_SUFFIX.length &&
+			frame.subarray(frame.length - ZLIB_SUFFIX.length).equals(ZLIB_SUFFIX)
+		);
+	}
+
+	/**
+	 * Decompresses a complete message through the shared zlib context.
+	 *
+	 * @param message The compressed message, ending with the `Z_SYNC_FLUSH` suffix.
+	 * @returns A promise resolving to the decompressed message.
+	 */
+	private decompress(message: Buffer): Promise<Buffer> {
+		return new Promise((resolve, reject) => {
+			const CHUNKS: Buffer[] = [];
+
+			const ON_DATA = (chunk: Buffer): void => {
+				CHUNKS.push(chunk);
+			};
+
+			const ON_ERROR = (error: Error): void => {
+				this.inflate.off("data", ON_DATA);
+				reject(error);
+			};
+
+			this.inflate.on("data", ON_DATA);
+			this.inflate.once("error", ON_ERROR);
+			this.inflate.write(message);
+			this.inflate.flush(constants.Z_SYNC_FLUSH, () => {
+				this.inflate.off("data", ON_DATA);
+				this.inflate.off("error", ON_ERROR);
+				resolve(Buffer.concat(CHUNKS));
+			});
+		});
+	}
+}
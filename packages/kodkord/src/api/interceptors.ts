@@ -0,0 +1,98 @@
+import type { RequestMethod } from "./rest";
+
+/** The options a request is sent with, whose headers interceptors can modify. */
+export type InterceptedRequestInit = Omit<RequestInit, "headers"> & {
+	headers: Record<string, string>;
+};
+
+/** Timestamps of a request, in milliseconds since the epoch. */
+export interface RequestTiming {
+	/** When the request was queued in its bucket. */
+	queued: number;
+
+	/** When the current attempt was sent. */
+	sent: number;
+
+	/** The time in milliseconds the current attempt took, or `0` while it is pending. */
+	elapsed: number;
+}
+
+/** The request an interceptor is called for. */
+export interface InterceptorContext {
+	/** HTTP method of the request. */
+	method: RequestMethod;
+
+	/** API route of the request. */
+	route: string;
+
+	/** Key of the bucket the request is queued in. */
+	bucket: string;
+
+	/** Number of the current attempt, starting at 1 and increasing on each retry. */
+	attempt: number;
+
+	/** Timestamps of the request. */
+	timing: RequestTiming;
+}
+
+/** The context of an outgoing request, whose URL and options can be modified. */
+export interface RequestContext extends InterceptorContext {
+	/** The URL the request is sent to. */
+	url: string;
+
+	/** The options the request is sent with. */
+	options: InterceptedRequestInit;
+}
+
+/** The context of a received response. */
+export interface ResponseContext extends RequestContext {
+	/** The response of the request. */
+	response: Response;
+}
+
+/** The context of a rate limited request, before it is retried. */
+export interface RateLimitContext extends InterceptorContext {
+	/** The time in milliseconds Discord asked to wait before retrying. */
+	retryAfter: number;
+
+	/** Whether the rate limit is global rather than specific to the route. */
+	global: boolean;
+
+	/** The scope of the rate limit, such as `user` or `shared`, if Discord reported it. */
+	scope: string | null;
+}
+
+/** The context of a failed request. */
+export interface ErrorContext extends InterceptorContext {
+	/** The error the request is rejected with. */
+	error: unknown;
+}
+
+/**
+ * Called before each attempt of a request is sent.
+ *
+ * The URL and options of the context can be modified, such as to add headers. Returning a
+ * `Response` skips sending the request and uses it instead, while any other value is ignored.
+ */
+export type RequestInterceptor = (context: RequestContext) => unknown;
+
+/**
+ * Called on each response.
+ *
+ * Returning a `Response` replaces the response, while any other value is ignored.
+ */
+export type ResponseInterceptor = (context: ResponseContext) => unknown;
+
+/** Called when a request is rate limited, before it is retried. */
+export type RateLimitInterceptor = (context: RateLimitContext) => unknown;
+
+/** Called when a request fails, before it is rejected. */
+export type ErrorInterceptor = (context: ErrorContext) => unknown;
+
+/** The interceptors of `Rest`, by the stage of a request they are called at. */
+export interface Interceptors {
+	request: RequestInterceptor;
+	response: ResponseInterceptor;
+	rateLimit: RateLimitInterceptor;
+	error: ErrorInterceptor;
+}
@@ -0,0 +1,125 @@
+import { Warn } from "@common/log";
+
+/** The default number of requests per second Discord allows globally. */
+export const GLOBAL_RATE_LIMIT = 50;
+
+/** The number of invalid requests after which Cloudflare temporarily bans the IP address. */
+export const INVALID_REQUEST_LIMIT = 10_000;
+
+/** The window in milliseconds invalid requests are counted in. */
+export const INVALID_REQUEST_WINDOW = 600_000;
+
+/**
+ * A fixed window rate limiter shared by every request it guards.
+ *
+ * Unlike a `Bucket`, it doesn't queue tasks, so requests guarded by it still run concurrently.
+ * It can also be blocked for some time, for example after Discord reports a global rate limit.
+ */
+export class Limiter {
+	/** The name of the limiter, used in logs. */
+	public readonly name: string;
+
+	/** Maximum number of uses allowed per window. */
+	public readonly limit: number;
+
+	/** The length of each window in milliseconds. */
+	public readonly window: number;
+
+	/** Remaining uses in the current window. */
+	public remaining: number;
+
+	/** Timestamp when the current window resets. */
+	public reset: number;
+
+	/** Timestamp until which the limiter is blocked. */
+	public blockedUntil: number;
+
+	/**
+	 * Creates a new `Limiter` instance.
+	 *
+	 * @param name The name of the limiter, used in logs.
+	 * @param limit Maximum number of uses allowed per window.
+	 * @param window The length of each window in milliseconds.
+	 */
+	public constructor(name: string, limit: number, window: number) {
+		this.name = name;
+		this.limit = limit;
+		this.window = window;
+		this.remaining = limit;
+		this.reset = Date.now() + window;
+		this.blockedUntil = 0;
+	}
+
+	/**
+	 * Waits until the limiter allows a use.
+	 *
+	 * @param consume Whether to use up the allowed use. Defaults to `true`.
+	 * @param signal A signal that stops the wait when aborted, without using up a use.
+	 * @returns Resolves once the limiter isn't blocked and has remaining uses.
+	 * @throws The reason of the signal if it is aborted.
+	 */
+	public async acquire(consume = true, signal?: AbortSignal | null): Promise<void> {
+		for (;;) {
+			signal?.throwIfAborted();
+			this.refresh();
+
+			const NOW = Date.now();
+
+			if (this.blockedUntil <= NOW && this.remaining > 0) {
+				break;
+			}
+
+			const WAIT_TIME = this.blockedUntil > NOW
+				? this.blockedUntil - NOW
+				: this.reset - NOW;
+
+			new Warn("Limiter", `The ${this.name} limit was reached. Waiting ${WAIT_TIME}ms.`).warn();
+			await new Promise((resolve) => {
+				const TIMER = setTimeout(
+					() => {
+						signal?.removeEventListener("abort", ABORT);
+						resolve(undefined);
+					},
+					WAIT_TIME
+				);
+
+				// The abort is thrown by the next iteration.
+				const ABORT = (): void => {
+					clearTimeout(TIMER);
+					resolve(undefined);
+				};
+
+				signal?.addEventListener("abort", ABORT, { once: true });
+			});
+		}
+
+		if (consume) {
+			this.remaining--;
+		}
+	}
+
+	/** Uses up one use of the current window without waiting. */
+	public consume(): void {
+		this.refresh();
+		this.remaining--;
+	}
+
+	/**
+	 * Blocks the limiter for some time.
+	 *
+	 * @param duration The time in milliseconds to block the limiter for.
+	 */
+	public block(duration: number): void {
+		this.blockedUntil = Math.max(this.blockedUntil, Date.now() + duration);
+	}
+
+	/** Starts a new window if the current one is over. */
+	private refresh(): void {
+		const NOW = Date.now();
+
+		if (NOW >= this.reset) {
+			this.remaining = this.limit;
+			this.reset = NOW + this.window;
+		}
+	}
+}
@@ -0,0 +1,156 @@
+import type {
+	GatewayGuildMembersChunkDispatchData,
+	GatewayGuildMembersChunkPresence,
+	GatewayRequestGuildMembersData,
+	APIGuildMember
+} from "discord-api-types/v10";
+
+import { Dictionary } from "@common/dictionary";
+import { randomBytes } from "node:crypto";
+import { Panic } from "@common/log";
+
+/** The default time in milliseconds to wait for all the chunks of a guild members request. */
+export const GUILD_MEMBERS_TIMEOUT = 15_000;
+
+/** Options of a Request Guild Members payload. */
+export interface GuildMembersRequest {
+	/** The Id of the guild to request the members of. */
+	guildId: string;
+
+	/**
+	 * The prefix that usernames must start with.
+	 *
+	 * If neither this nor `userIds` is provided, every member of the guild is requested.
+	 */
+	query?: string;
+
+	/** The maximum number of members to receive, `0` meaning no limit. Defaults to `0`. */
+	limit?: number;
+
+	/** The Ids of the members to request, up to 100. */
+	userIds?: string[];
+
+	/** Whether to also receive the presences of the members. */
+	presences?: boolean;
+
+	/** The time in milliseconds to wait for all the chunks. Defaults to `GUILD_MEMBERS_TIMEOUT`. */
+	timeout?: number;
+}
+
+/** The aggregated result of all the chunks of a guild members request. */
+export interface GuildMembersResult {
+	/** The members received. */
+	members: APIGuildMember[];
+
+	/** The presences of the members received, if they were requested. */
+	presences: GatewayGuildMembersChunkPresence[];
+
+	/** The requested user Ids that weren't found in the guild. */
+	notFound: string[];
+}
+
+/** A guild members request waiting for its chunks. */
+interface PendingGuildMembers {
+	result: GuildMembersResult;
+	received: number;
+	resolve: (result: GuildMembersResult) => void;
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	timeout: Timer;
+}
+
+/**
+ * Tracks Request Guild Members payloads and aggregates the `GUILD_MEMBERS_CHUNK` dispatches
+ * they produce.
+ *
+ * Each request is given a random nonce, which Discord includes in every chunk of its response,
+ * so the chunks can be matched to the request they belong to.
+ */
+export class GuildMembersRequests {
+	/** Requests waiting for their chunks, by nonce. */
+	private readonly pending: Dictionary<string, PendingGuildMembers>;
+
+	/** Creates a new `GuildMembersRequests` instance. */
+	public constructor() {
+		this.pending = new Dictionary(undefined, undefined, "Guild Members Requests");
+	}
+
+	/**
+	 * Starts tracking a guild members request.
+	 *
+	 * @param request The options of the request.
+	 * @returns The data of the payload to send, and a promise resolving once all the chunks arrive.
+	 * The promise rejects if they don't arrive before the timeout.
+	 */
+	public track(
+		request: GuildMembersRequest
+	): [data: GatewayRequestGuildMembersData, result: Promise<GuildMembersResult>] {
+		const NONCE = randomBytes(16).toString("hex");
+		const DATA: GatewayRequestGuildMembersData = request.userIds
+			? {
+				guild_id: request.guildId,
+				user_ids: request.userIds,
+				presences: request.presences,
+				nonce: NONCE
+			}
+			: {
+				guild_id: request.guildId,
+				query: request.query ?? "",
+				limit: request.limit ?? 0,
+				presences: request.presences,
+				nonce: NONCE
+			};
+
+		const RESULT = new Promise<GuildMembersResult>((resolve, reject) => {
+			this.pending.set(NONCE, {
+				result: { members: [], presences: [], notFound: [] },
+				received: 0,
+				resolve,
+				timeout: setTimeout(
+					() => {
+						this.pending.delete(NONCE);
+						reject(
+							new Panic(
+								"Guild Members",
+								`Timed out waiting for the members of the guild with id ${request.guildId}.`
+							).toError()
+						);
+					},
+					request.timeout ?? GUILD_MEMBERS_TIMEOUT
+				)
+			});
+		});
+
+		return [DATA, RESULT];
+	}
+
+	/**
+	 * Aggregates a chunk into the request it belongs to.
+	 *
+	 * Resolves the request once all of its chunks have arrived. Chunks of unknown requests
+	 * are ignored.
+	 *
+	 * @param chunk The data of the `GUILD_MEMBERS_CHUNK` dispatch.
+	 */
+	public receive(chunk: GatewayGuildMembersChunkDispatchData): void {
+		if (chunk.nonce === undefined) {
+			return;
+		}
+
+		const PENDING = this.pending.get(chunk.nonce);
+
+		if (PENDING === undefined) {
+			return;
+		}
+
+		PENDING.result.members.push(...chunk.members);
+		PENDING.result.presences.push(...(chunk.presences ?? []));
+		PENDING.result.notFound.push(...(chunk.not_found ?? []).map(String));
+		PENDING.received++;
+
+		if (PENDING.received >= chunk.chunk_count) {
+			clearTimeout(PENDING.timeout);
+			this.pending.delete(chunk.nonce);
+			PENDING.resolve(PENDING.result);
+		}
+	}
+}
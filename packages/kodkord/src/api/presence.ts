@@ -0,0 +1,79 @@
+import {
+	type GatewayPresenceUpdateData,
+	type GatewayActivityUpdateData,
+	PresenceUpdateStatus,
+	ActivityType
+} from "discord-api-types/v10";
+import { Panic } from "@common/log";
+
+/** A presence update, where missing values fall back to an online presence without activities. */
+export type PresenceSettings = Partial<GatewayPresenceUpdateData>;
+
+/**
+ * Resolves a presence update into the data of a Gateway Presence Update payload.
+ *
+ * - Fills missing values with their defaults.
+ * - Validates the status, the activities, and the AFK values against Discord's constraints.
+ *
+ * @param presence The presence update to resolve.
+ * @returns The data of the Gateway Presence Update payload.
+ * @throws If any value of the presence is invalid.
+ */
+export function resolvePresence(presence: PresenceSettings): GatewayPresenceUpdateData {
+	const RESOLVED: GatewayPresenceUpdateData = {
+		since: presence.since ?? null,
+		activities: presence.activities ?? [],
+		status: presence.status ?? PresenceUpdateStatus.Online,
+		afk: presence.afk ?? false
+	};
+
+	const PROBLEMS: string[] = [];
+
+	if (!Object.values(PresenceUpdateStatus).includes(RESOLVED.status)) {
+		PROBLEMS.push(`Unknown status "${RESOLVED.status}".`);
+	}
+
+	if (RESOLVED.since !== null && !Number.isInteger(RESOLVED.since)) {
+		PROBLEMS.push("The `since` value must be a Unix time in milliseconds or `null`.");
+	}
+
+	if (typeof RESOLVED.afk !== "boolean") {
+		PROBLEMS.push("The `afk` value must be a boolean.");
+	}
+
+	for (const [INDEX, ACTIVITY] of RESOLVED.activities.entries()) {
+		PROBLEMS.push(...validateActivity(ACTIVITY).map((problem) => `Activity #${INDEX}: ${problem}`));
+	}
+
+	if (PROBLEMS.length > 0) {
+		const PANIC = new Panic("Presence", "Invalid presence update.", ...PROBLEMS);
+		PANIC.panic();
+		throw PANIC.toError();
+	}
+
+	return RESOLVED;
+}
+
+/**
+ * Validates an activity of a presence update.
+ *
+ * @param activity The activity to validate.
+ * @returns The problems found in the activity, empty if it is valid.
+ */
+function validateActivity(activity: GatewayActivityUpdateData): string[] {
+	const PROBLEMS: string[] = [];
+
+	if (typeof activity.name !== "string" || activity.name.length === 0) {
+		PROBLEMS.push("The name must be a non-empty string.");
+	}
+
+	if (!Object.values(ActivityType).includes(activity.type)) {
+		PROBLEMS.push(`Unknown activity type "${activity.type}".`);
+	}
+
+	if (activity.url !== undefined && activity.url !== null && activity.type !== ActivityType.Streaming) {
+		PROBLEMS.push("Only streaming activities can have a URL.");
+	}
+
+	return PROBLEMS;
+}
@@ -1,9 +1,61 @@
-import { RouteBases } from "discord-api-types/v10";
+import { type RESTRateLimit, RouteBases } from "discord-api-types/v10";
 import { Dictionary } from "@common/dictionary";
-import { Panic } from "@common/log";
+import { Panic, Warn } from "@common/log";
+import { Readable } from "node:stream";
 import { URL } from "node:url";
 
-import { Bucket } from "./bucket";
+import { INVALID_REQUEST_WINDOW, INVALID_REQUEST_LIMIT, GLOBAL_RATE_LIMIT, Limiter } from "./limiter";
+import {
+	type RequestData,
+	DiscordAPIError,
+	RateLimitError,
+	isRESTError,
+	HTTPError
+} from "./errors";
+import { normalizeRoute, majorParameter } from "./routes";
+import type {
+	InterceptedRequestInit,
+	RateLimitInterceptor,
+	InterceptorContext,
+	ResponseInterceptor,
+	RequestInterceptor,
+	ErrorInterceptor,
+	RequestContext,
+	Interceptors
+} from "./interceptors";
+
+import { type APIRoutes, createRouter } from "./router";
+import { type Task, Bucket } from "./bucket";
+
+/** The default time in milliseconds after which unused buckets are swept. */
+export const BUCKET_LIFETIME = 300_000;
+
+/** The default time in milliseconds after which a request is aborted. */
+export const REQUEST_TIMEOUT = 15_000;
+
+/** The delay in milliseconds before the first retry of a failed request, doubled on each retry. */
+export const RETRY_DELAY = 500;
+
+/** Methods whose requests can be repeated without side effects, and are thus safe to retry. */
+const IDEMPOTENT_METHODS: readonly RequestMethod[] = ["DELETE", "GET", "PUT"];
+
+/** A request being executed, along with how it is retried. */
+interface PendingRequest {
+	/** The URL the request is sent to. */
+	url: string;
+
+	/** The options the request is sent with. */
+	options: InterceptedRequestInit;
+
+	/** The time in milliseconds after which each attempt is aborted, or `0` for none. */
+	timeout: number;
+
+	/** Maximum number of retries of 5xx responses and network errors. */
+	retries: number;
+
+	/** The context passed to interceptors, updated on each attempt. */
+	context: InterceptorContext;
+}
 
 /** HTTP methods used for RESTful requests. */
 export type RequestMethod = "DELETE" | "PATCH" | "POST" | "GET" | "PUT";
@@ -21,18 +73,118 @@ export interface RestSettings {
 
 	/** User-Agent header to identify the client. */
 	agent?: string;
+
+	/** Maximum number of requests per second across every route. Defaults to `GLOBAL_RATE_LIMIT`. */
+	globalLimit?: number;
+
+	/**
+	 * Maximum number of invalid requests (401, 403 and 429 responses) in each 10 minutes window.
+	 *
+	 * Once reached, requests wait for the next window instead of risking a Cloudflare ban.
+	 * Defaults to `INVALID_REQUEST_LIMIT`.
+	 */
+	invalidRequestLimit?: number;
+
+	/** Maximum number of times a rate limited request is retried. Defaults to `3`. */
+	rateLimitRetries?: number;
+
+	/**
+	 * Maximum number of times a request failing with a 5xx response or a network error is retried.
+	 *
+	 * Only requests with idempotent methods (`GET`, `PUT` and `DELETE`) are retried, waiting
+	 * `RETRY_DELAY` before the first retry and twice as long before each next one. Defaults to `3`.
+	 */
+	retries?: number;
+
+	/**
+	 * The default time in milliseconds after which a request is aborted, for each attempt.
+	 *
+	 * Defaults to `REQUEST_TIMEOUT`. Set to `0` to disable the timeout.
+	 */
+	timeout?: number;
+
+	/**
+	 * The interval in milliseconds at which buckets unused for `BUCKET_LIFETIME` are swept.
+	 *
+	 * Defaults to `BUCKET_LIFETIME`. Set to `0` to disable sweeping.
+	 */
+	sweepInterval?: number;
+}
+
+/** A file to upload along with a request. */
+export interface RawFile {
+	/** Name of the file, including its extension. */
+	name: string;
+
+	/** Contents of the file. Streams are read completely before the request is sent. */
+	data: ReadableStream<Uint8Array> | Uint8Array | Readable | Buffer | Blob;
+
+	/** MIME type of the file. Defaults to the type of the Blob, if any. */
+	contentType?: string;
+}
+
+/**
+ * How the body of a response is decoded.
+ *
+ * - `json`: Parsed as JSON.
+ * - `text`: Returned as a string.
+ * - `binary`: Returned as a Buffer.
+ */
+export type ResponseType = "binary" | "json" | "text";
+
+/**
+ * The value a request resolves with, narrowed by its `response` parameter.
+ *
+ * Text and binary responses are typed as strings and Buffers, and any other response as the
+ * type chosen by the caller.
+ */
+export type RestResponse<Options extends APIRequestParameters, Returns> = Options extends {
+	response: "text";
 }
+	? string
+	: Options extends { response: "binary" }
+		? Buffer
+		: Returns;
 
 /** Parameters for a REST API request. */
 export interface APIRequestParameters {
-	/** Request body as a JSON object. */
+	/**
+	 * Request body as a JSON object.
+	 *
+	 * When files are uploaded, it is sent as the `payload_json` field of the multipart body.
+	 */
 	body?: Record<string, object>;
 
+	/**
+	 * Files to upload as the `files[n]` fields of a `multipart/form-data` body.
+	 *
+	 * Each file can be referenced by its index in the `attachments` of the body.
+	 */
+	files?: RawFile[];
+
 	/** Query parameters to append to the request URL. */
 	query?: Record<string, string>;
 
 	/** Reason for the request, logged in Discord's audit log if applicable. */
 	reason?: string;
+
+	/** Time in milliseconds after which the request is aborted. Defaults to the `Rest` timeout. */
+	timeout?: number;
+
+	/**
+	 * A signal that aborts the request.
+	 *
+	 * A request still waiting in its bucket leaves the queue, and a running one is cancelled.
+	 */
+	signal?: AbortSignal;
+
+	/**
+	 * How the body of the response is decoded, narrowing the type the request resolves with.
+	 *
+	 * Defaults to decoding the body by its content type. Empty bodies are only decoded if this
+	 * is `text` or `binary`, and become `undefined` otherwise.
+	 */
+	response?: ResponseType;
 }
 
 /**
@@ -45,9 +197,33 @@ export class Rest {
 	/** Configuration settings for the REST client. */
 	private settings: RestSettings;
 
-	/** Buckets used for rate-limiting requests to specific API routes. */
+	/**
+	 * The typed routes of the Discord API, such as `rest.api.channels(id).messages.post(body)`.
+	 *
+	 * The string-based methods remain available for routes missing from them.
+	 */
+	public readonly api: APIRoutes;
+
+	/**
+	 * Buckets used for rate-limiting requests to specific API routes.
+	 *
+	 * Buckets are keyed by the bucket hash Discord reports for the route along with its major
+	 * parameter, or by the normalized route until the hash is known.
+	 */
 	private buckets: Dictionary<string, Bucket>;
 
+	/** Bucket hashes reported by Discord, by method and normalized route. */
+	private readonly hashes: Dictionary<string, string>;
+
+	/** Limiter shared by every request, honouring Discord's global rate limit. */
+	private readonly global: Limiter;
+
+	/** Limiter counting invalid requests, keeping them under Cloudflare's ban threshold. */
+	private readonly invalid: Limiter;
+
+	/** Registered interceptors, by the stage of a request they are called at. */
+	private readonly interceptors: { [Stage in keyof Interceptors]: Interceptors[Stage][] };
+
 	/**
 	 * Creates a new `Rest` instance.
 	 *
@@ -58,18 +234,44 @@ export class Rest {
 			...settings,
 			baseURL: settings.baseURL || RouteBases.api
 		};
+		this.api = createRouter(this);
 		this.buckets = new Dictionary();
+		this.hashes = new Dictionary();
+		this.interceptors = { request: [], response: [], rateLimit: [], error: [] };
+		this.global = new Limiter("global rate", settings.globalLimit ?? GLOBAL_RATE_LIMIT, 1_000);
+		this.invalid = new Limiter(
+			"invalid request",
+			settings.invalidRequestLimit ?? INVALID_REQUEST_LIMIT,
+			INVALID_REQUEST_WINDOW
+		);
+
+		const SWEEP_INTERVAL = settings.sweepInterval ?? BUCKET_LIFETIME;
+
+		if (SWEEP_INTERVAL > 0) {
+			// The sweeping shouldn't keep the process alive on its own.
+			setInterval(
+				() => {
+					this.sweep();
+				},
+				SWEEP_INTERVAL
+			).unref();
+		}
 	}
 
 	/**
 	 * Sends a DELETE request to the specified API route.
 	 *
+	 * Most DELETE endpoints answer with 204 No Content, so the response defaults to `undefined`.
+	 *
 	 * @param route API route to send the request to.
 	 * @param parameters Optional parameters for the request.
 	 * @returns A promise resolving to the response of the request.
 	 */
-	public delete<Returns>(route: string, parameters?: APIRequestParameters): Promise<Returns> {
-		return this.request<Returns>("DELETE", route, parameters);
+	public delete<Returns = undefined, Options extends APIRequestParameters = APIRequestParameters>(
+		route: string,
+		parameters?: Options
+	): Promise<RestResponse<Options, Returns>> {
+		return this.request<Returns, Options>("DELETE", route, parameters);
 	}
 
 	/**
@@ -79,8 +281,11 @@ export class Rest {
 	 * @param parameters Optional parameters for the request.
 	 * @returns A promise resolving to the response of the request.
 	 */
-	public patch<Returns>(route: string, parameters?: APIRequestParameters): Promise<Returns> {
-		return this.request<Returns>("PATCH", route, parameters);
+	public patch<Returns, Options extends APIRequestParameters = APIRequestParameters>(
+		route: string,
+		parameters?: Options
+	): Promise<RestResponse<Options, Returns>> {
+		return this.request<Returns, Options>("PATCH", route, parameters);
 	}
 
 	/**
@@ -90,19 +295,27 @@ export class Rest {
 	 * @param parameters Optional parameters for the request.
 	 * @returns A promise resolving to the response of the request.
 	 */
-	public post<Returns>(route: string, parameters?: APIRequestParameters): Promise<Returns> {
-		return this.request<Returns>("POST", route, parameters);
+	public post<Returns, Options extends APIRequestParameters = APIRequestParameters>(
+		route: string,
+		parameters?: Options
+	): Promise<RestResponse<Options, Returns>> {
+		return this.request<Returns, Options>("POST", route, parameters);
 	}
 
 	/**
 	 * Sends a PUT request to the specified API route.
 	 *
+	 * Most PUT endpoints answer with 204 No Content, so the response defaults to `undefined`.
+	 *
 	 * @param route API route to send the request to.
 	 * @param parameters Optional parameters for the request.
 	 * @returns A promise resolving to the response of the request.
 	 */
-	public put<Returns>(route: string, parameters?: APIRequestParameters): Promise<Returns> {
-		return this.request<Returns>("PUT", route, parameters);
+	public put<Returns = undefined, Options extends APIRequestParameters = APIRequestParameters>(
+		route: string,
+		parameters?: Options
+	): Promise<RestResponse<Options, Returns>> {
+		return this.request<Returns, Options>("PUT", route, parameters);
 	}
 
 	/**
@@ -112,99 +325,672 @@ export class Rest {
 	 * @param parameters Optional parameters for the request.
 	 * @returns A promise resolving to the response of the request.
 	 */
-	public get<Returns>(route: string, parameters?: APIRequestParameters): Promise<Returns> {
-		return this.request<Returns>("GET", route, parameters);
+	public get<Returns, Options extends APIRequestParameters = APIRequestParameters>(
+		route: string,
+		parameters?: Options
+	): Promise<RestResponse<Options, Returns>> {
+		return this.request<Returns, Options>("GET", route, parameters);
+	}
+
+	/**
+	 * Registers an interceptor called before each attempt of a request is sent.
+	 *
+	 * Interceptors are called in the order they were registered, and can modify the URL and
+	 * options of the request. The first one returning a response answers the request instead.
+	 *
+	 * @param interceptor The interceptor to register.
+	 * @returns The `Rest` instance, for chaining.
+	 */
+	public onRequest(interceptor: RequestInterceptor): this {
+		this.interceptors.request.push(interceptor);
+		return this;
+	}
+
+	/**
+	 * Registers an interceptor called on the response of each attempt of a request.
+	 *
+	 * Each interceptor can replace the response by returning another one.
+	 *
+	 * @param interceptor The interceptor to register.
+	 * @returns The `Rest` instance, for chaining.
+	 */
+	public onResponse(interceptor: ResponseInterceptor): this {
+		this.interceptors.response.push(interceptor);
+		return this;
+	}
+
+	/**
+	 * Registers an interceptor called when a request is rate limited, before it is retried.
+	 *
+	 * @param interceptor The interceptor to register.
+	 * @returns The `Rest` instance, for chaining.
+	 */
+	public onRateLimit(interceptor: RateLimitInterceptor): this {
+		this.interceptors.rateLimit.push(interceptor);
+		return this;
+	}
+
+	/**
+	 * Registers an interceptor called when a request fails, before it is rejected.
+	 *
+	 * @param interceptor The interceptor to register.
+	 * @returns The `Rest` instance, for chaining.
+	 */
+	public onError(interceptor: ErrorInterceptor): this {
+		this.interceptors.error.push(interceptor);
+		return this;
+	}
+
+	/**
+	 * Unregisters an interceptor, whichever stage it was registered for.
+	 *
+	 * @param interceptor The interceptor to unregister.
+	 * @returns `true` if the interceptor was registered, otherwise `false`.
+	 */
+	public removeInterceptor(interceptor: Interceptors[keyof Interceptors]): boolean {
+		let removed = false;
+
+		for (const INTERCEPTORS of Object.values(this.interceptors) as unknown[][]) {
+			const INDEX = INTERCEPTORS.indexOf(interceptor);
+
+			if (INDEX !== -1) {
+				INTERCEPTORS.splice(INDEX, 1);
+				removed = true;
+			}
+		}
+
+		return removed;
 	}
 
 	/**
 	 * Sends a request to the Discord API.
 	 *
-	 * - Applies rate limits using buckets based on the API route.
+	 * - Applies rate limits using buckets based on the API route, and the global rate limit.
+	 * - Retries rate limited requests after the time Discord asks to wait.
 	 * - Automatically constructs headers and appends query parameters if provided.
 	 *
 	 * @param method HTTP method for the request.
 	 * @param route API route to send the request to.
 	 * @param parameters Optional parameters for the request.
-	 * @returns A promise resolving to the response of the request.
+	 * @returns A promise resolving to the response of the request, decoded as the `response`
+	 * parameter asks, or by its content type:
+	 * - JSON bodies are parsed.
+	 * - Text bodies are returned as strings, and any other body as a Buffer.
+	 * - Empty bodies, such as those of 204 No Content responses, become `undefined`.
+	 * @throws A `DiscordAPIError` if Discord reports an error, a `RateLimitError` if the request is
+	 * still rate limited after retrying, or an `HTTPError` for any other unsuccessful response.
+	 * @throws The reason of the signal if the request is aborted.
 	 */
-	public async request<Returns>(
+	public async request<Returns, Options extends APIRequestParameters = APIRequestParameters>(
 		method: RequestMethod,
 		route: string,
-		parameters: APIRequestParameters = {}
-	): Promise<Returns> {
+		parameters: Options = {} as Options
+	): Promise<RestResponse<Options, Returns>> {
 		const url = new URL(`${this.settings.baseURL}${route}`);
-		const BUCKET = this.getBucket(route);
+		const BUCKET = this.getBucket(route, method);
 
 		if (parameters.query) {
 			url.search = new URLSearchParams(parameters.query).toString();
 		}
 
-		const REQUEST_OPTIONS: RequestInit = {
+		const { signal: SIGNAL } = parameters;
+		const TIMEOUT = parameters.timeout ?? this.settings.timeout ?? REQUEST_TIMEOUT;
+		const RETRIES = IDEMPOTENT_METHODS.includes(method)
+			? (this.settings.retries ?? 3)
+			: 0;
+
+		const CONTEXT: InterceptorContext = {
+			method,
+			route,
+			bucket: this.bucketKey(route, method),
+			attempt: 0,
+			timing: { queued: Date.now(), sent: 0, elapsed: 0 }
+		};
+
+		const MULTIPART = parameters.files !== undefined && parameters.files.length > 0;
+		const REQUEST_OPTIONS: InterceptedRequestInit = {
 			method,
-			headers: this.buildHeaders(parameters.reason),
-			body: parameters.body
-				? JSON.stringify(parameters.body)
-				: undefined
+			signal: SIGNAL,
+			headers: this.buildHeaders(parameters.reason, MULTIPART),
+			body: MULTIPART
+				? await this.buildForm(parameters)
+				: parameters.body && JSON.stringify(parameters.body)
 		};
 
 		return new Promise((resolve, reject) => {
-			BUCKET.add(async (_, rejectBucket) => {
+			// Aborted requests are rejected through the error interceptors, even if they never ran.
+			const CANCEL = (): void => {
+				void this.fail(CONTEXT, SIGNAL?.reason).then(() => {
+					reject(SIGNAL?.reason);
+				});
+			};
+
+			if (SIGNAL?.aborted) {
+				CANCEL();
+				return;
+			}
+
+			// The bucket task always completes, so a failed request doesn't stall the queue.
+			const TASK: Task<undefined> = async (done) => {
+				SIGNAL?.removeEventListener("abort", ABORT);
+
 				try {
-					const RESPONSE = await fetch(url.toString(), REQUEST_OPTIONS);
+					const RESPONSE = await this.execute({
+						url: url.toString(),
+						options: REQUEST_OPTIONS,
+						timeout: TIMEOUT,
+						retries: RETRIES,
+						context: CONTEXT
+					});
+
+					// Learning the hash can move the route to another bucket, which the headers belong to.
+					this.learnHash(method, route, RESPONSE);
+					this.updateBucket(this.getBucket(route, method), RESPONSE.headers);
 
 					if (!RESPONSE.ok) {
-						const PANIC = new Panic("Rest", `Request failed with status: ${RESPONSE.status}`);
-						PANIC.panic();
-						rejectBucket(PANIC.toError());
+						const ERROR = await this.createError(
+							{ method, route, body: parameters.body },
+							RESPONSE
+						);
+
+						new Panic(
+							"Rest",
+							`Request failed with status: ${RESPONSE.status}`,
+							ERROR.message
+						).panic();
+						await this.fail(CONTEXT, ERROR);
+						reject(ERROR);
 						return;
 					}
 
-					BUCKET.limit = Number(RESPONSE.headers.get("X-RateLimit-Limit")) || 1;
-					BUCKET.remaining = Number(RESPONSE.headers.get("X-RateLimit-Remaining")) || 0;
-					BUCKET.reset = Number(RESPONSE.headers.get("X-RateLimit-Reset")) || 0;
-
-					resolve(await RESPONSE.json());
+					resolve(
+						(await decodeResponse(RESPONSE, parameters.response)) as RestResponse<Options, Returns>
+					);
 				} catch (error) {
+					if (SIGNAL?.aborted) {
+						await this.fail(CONTEXT, SIGNAL.reason);
+						reject(SIGNAL.reason);
+						return;
+					}
+
 					const PANIC = new Panic("Rest", "Failed to execute request", (error as Error).message);
+					const ERROR = PANIC.toError();
 					PANIC.panic();
-					rejectBucket(PANIC.toError());
+					await this.fail(CONTEXT, ERROR);
+					reject(ERROR);
+				} finally {
+					done(undefined);
+				}
+			};
+
+			// Running tasks are cancelled through their fetch, so only queued ones are removed here.
+			const ABORT = (): void => {
+				if (BUCKET.remove(TASK)) {
+					CANCEL();
 				}
-			}).catch(reject);
+			};
+
+			SIGNAL?.addEventListener("abort", ABORT, { once: true });
+			BUCKET.add(TASK).catch(reject);
 		});
 	}
 
+	/**
+	 * Executes a request, waiting for the global and invalid request limits first.
+	 *
+	 * - Retries 429 responses after the time Discord asks to wait, blocking every request if the
+	 * rate limit is global.
+	 * - Retries 5xx responses and network errors, including timeouts, with an exponential backoff.
+	 * - Errors thrown by interceptors aren't retried.
+	 *
+	 * @param request The request to execute.
+	 * @returns A promise resolving to the response, which is the last failed one if retries run out.
+	 * @throws The network error of the last attempt, the error thrown by an interceptor, or the
+	 * reason of the signal once aborted.
+	 */
+	private async execute(request: PendingRequest): Promise<Response> {
+		const RATE_LIMIT_RETRIES = this.settings.rateLimitRetries ?? 3;
+		const { signal: SIGNAL } = request.options;
+		let limited = 0;
+		let failed = 0;
+
+		for (;;) {
+			const RESPONSE = await this.send(request);
+
+			if (RESPONSE instanceof Error) {
+				if (SIGNAL?.aborted || failed >= request.retries) {
+					throw RESPONSE;
+				}
+
+				await this.backoff(++failed, request.retries, RESPONSE.message, SIGNAL);
+				continue;
+			}
+
+			if (RESPONSE.status >= 500 && failed < request.retries) {
+				await this.backoff(++failed, request.retries, `Status ${RESPONSE.status}.`, SIGNAL);
+				continue;
+			}
+
+			if (RESPONSE.status !== 429 || limited >= RATE_LIMIT_RETRIES) {
+				return RESPONSE;
+			}
+
+			await this.waitRateLimit(RESPONSE, ++limited, RATE_LIMIT_RETRIES, request.context, SIGNAL);
+		}
+	}
+
+	/**
+	 * Sends a single attempt of a request, passing it through the interceptors.
+	 *
+	 * - Request interceptors are called first, and may modify the request or answer it instead.
+	 * - The global and invalid request limits are only waited for if the request is sent.
+	 * - The signal of the request is checked before each step, so aborted requests aren't sent.
+	 * - Response interceptors are called on the response, and may replace it.
+	 *
+	 * @param request The request to send.
+	 * @returns A promise resolving to the response of the attempt, or to its network error, which
+	 * can be retried.
+	 * @throws The error thrown by an interceptor, or the reason of the signal once aborted.
+	 */
+	private async send(request: PendingRequest): Promise<Response | Error> {
+		const { context: BASE } = request;
+		const { signal: SIGNAL } = request.options;
+		SIGNAL?.throwIfAborted();
+
+		BASE.attempt++;
+		BASE.timing.sent = Date.now();
+		BASE.timing.elapsed = 0;
+
+		const CONTEXT: RequestContext = {
+			...BASE,
+			url: request.url,
+			options: { ...request.options, headers: { ...request.options.headers } }
+		};
+
+		let response: Response | undefined;
+
+		for (const INTERCEPTOR of this.interceptors.request) {
+			const RESULT = await INTERCEPTOR(CONTEXT);
+
+			if (RESULT instanceof Response) {
+				response = RESULT;
+				break;
+			}
+		}
+
+		if (!response) {
+			await this.invalid.acquire(false, SIGNAL);
+			await this.global.acquire(true, SIGNAL);
+
+			try {
+				response = await fetch(CONTEXT.url, {
+					...CONTEXT.options,
+					signal: attemptSignal(CONTEXT.options, request.timeout)
+				});
+			} catch (error) {
+				return error as Error;
+			}
+
+			this.countInvalid(response);
+		}
+
+		BASE.timing.elapsed = Date.now() - BASE.timing.sent;
+
+		for (const INTERCEPTOR of this.interceptors.response) {
+			const RESULT = await INTERCEPTOR({ ...CONTEXT, timing: BASE.timing, response });
+
+			if (RESULT instanceof Response) {
+				response = RESULT;
+			}
+		}
+
+		return response;
+	}
+
+	/**
+	 * Calls the error interceptors of a failed request.
+	 *
+	 * Errors thrown by an interceptor are logged as a warning, so they don't replace the error
+	 * of the request.
+	 *
+	 * @param context The context of the request.
+	 * @param error The error the request is rejected with.
+	 */
+	private async fail(context: InterceptorContext, error: unknown): Promise<void> {
+		if (context.timing.sent > 0 && context.timing.elapsed === 0) {
+			context.timing.elapsed = Date.now() - context.timing.sent;
+		}
+
+		for (const INTERCEPTOR of this.interceptors.error) {
+			try {
+				await INTERCEPTOR({ ...context, error });
+			} catch (failure) {
+				new Warn("Rest", "An error interceptor failed.", (failure as Error).message).warn();
+			}
+		}
+	}
+
+	/**
+	 * Waits before retrying a failed request, twice as long as before on each retry.
+	 *
+	 * @param retry The number of the retry, starting at 1.
+	 * @param retries Maximum number of retries.
+	 * @param reason Why the request failed.
+	 * @param signal The signal of the request, interrupting the wait when aborted.
+	 */
+	private async backoff(
+		retry: number,
+		retries: number,
+		reason: string,
+		signal?: AbortSignal | null
+	): Promise<void> {
+		const DELAY = RETRY_DELAY * 2 ** (retry - 1);
+
+		new Warn(
+			"Rest",
+			`Request failed. Retrying in ${DELAY}ms...`,
+			reason,
+			`Retry ${retry} of ${retries}.`
+		).warn();
+
+		await sleep(DELAY, signal);
+	}
+
+	/**
+	 * Waits for the rate limit of a 429 response before retrying it.
+	 *
+	 * Global rate limits block every request instead, so the wait happens in `execute`.
+	 *
+	 * @param response The 429 response.
+	 * @param retry The number of the retry, starting at 1.
+	 * @param retries Maximum number of retries.
+	 * @param context The context of the request, passed to the rate limit interceptors.
+	 * @param signal The signal of the request, interrupting the wait when aborted.
+	 */
+	private async waitRateLimit(
+		response: Response,
+		retry: number,
+		retries: number,
+		context: InterceptorContext,
+		signal?: AbortSignal | null
+	): Promise<void> {
+		const [RETRY_AFTER, GLOBAL] = await this.parseRateLimit(response);
+		const SCOPE = GLOBAL
+			? "global"
+			: "route";
+
+		for (const INTERCEPTOR of this.interceptors.rateLimit) {
+			await INTERCEPTOR({
+				...context,
+				retryAfter: RETRY_AFTER,
+				global: GLOBAL,
+				scope: response.headers.get("X-RateLimit-Scope")
+			});
+		}
+
+		new Warn(
+			"Rest",
+			`Hit the ${SCOPE} rate limit. Retrying in ${RETRY_AFTER}ms...`,
+			`Retry ${retry} of ${retries}.`
+		).warn();
+
+		if (GLOBAL) {
+			this.global.block(RETRY_AFTER);
+		} else {
+			await sleep(RETRY_AFTER, signal);
+		}
+	}
+
+	/**
+	 * Creates the error of an unsuccessful response.
+	 *
+	 * @param request The request the response belongs to.
+	 * @param response The unsuccessful response.
+	 * @returns A `RateLimitError` for 429 responses, a `DiscordAPIError` for responses in Discord's
+	 * JSON error format, or an `HTTPError` otherwise.
+	 */
+	private async createError(request: RequestData, response: Response): Promise<HTTPError> {
+		if (response.status === 429) {
+			const [RETRY_AFTER, GLOBAL] = await this.parseRateLimit(response);
+
+			return new RateLimitError(request, await response.json().catch(() => undefined), {
+				retryAfter: RETRY_AFTER,
+				global: GLOBAL,
+				scope: response.headers.get("X-RateLimit-Scope")
+			});
+		}
+
+		const TEXT = await response.text();
+		let body: unknown = TEXT;
+
+		try {
+			body = JSON.parse(TEXT);
+		} catch {
+			// The body isn't JSON, so it is kept as text.
+		}
+
+		return isRESTError(body)
+			? new DiscordAPIError(request, response.status, body)
+			: new HTTPError(
+				`Request to ${request.method} ${request.route} failed with status ${response.status}.`,
+				request,
+				response.status,
+				body
+			);
+	}
+
+	/**
+	 * Counts 401, 403 and 429 responses against the invalid request limit.
+	 *
+	 * 429 responses of shared rate limits aren't counted, as Discord doesn't count them either.
+	 *
+	 * @param response The response to count.
+	 */
+	private countInvalid(response: Response): void {
+		const SHARED = response.headers.get("X-RateLimit-Scope") === "shared";
+
+		if (
+			response.status === 401 ||
+			response.status === 403 ||
+			(response.status === 429 && !SHARED)
+		) {
+			this.invalid.consume();
+		}
+	}
+
+	/**
+	 * Reads how long to wait before retrying a 429 response, and whether the limit is global.
+	 *
+	 * @param response The 429 response.
+	 * @returns A promise resolving to the time to wait in milliseconds and whether the limit is global.
+	 */
+	private async parseRateLimit(response: Response): Promise<[retryAfter: number, global: boolean]> {
+		const BODY = (await response
+			.clone()
+			.json()
+			.catch(() => ({}))) as Partial<RESTRateLimit>;
+
+		// The body is more precise than the header, which is rounded up to seconds.
+		const SECONDS = BODY.retry_after ?? Number(response.headers.get("Retry-After") ?? 1);
+		const GLOBAL = response.headers.get("X-RateLimit-Global") === "true" || BODY.global === true;
+
+		return [Math.ceil(SECONDS * 1_000), GLOBAL];
+	}
+
 	/**
 	 * Retrieves the rate-limiting bucket for the specified route.
 	 *
-	 * If no bucket exists for the route, a new one is created.
+	 * - Routes differing only in minor parameters, such as message Ids, share a bucket.
+	 * - Routes Discord reports under the same bucket hash share a bucket for each major parameter.
+	 * - If no bucket exists for the route, a new one is created.
 	 *
 	 * @param route API route for which the bucket is required.
+	 * @param method HTTP method of the request. Defaults to `GET`.
 	 * @returns The bucket associated with the route.
 	 */
-	public getBucket(route: string): Bucket {
-		if (!this.buckets.has(route)) {
-			this.buckets.set(route, new Bucket());
+	public getBucket(route: string, method: RequestMethod = "GET"): Bucket {
+		const KEY = this.bucketKey(route, method);
+		const BUCKET = this.buckets.get(KEY) ?? new Bucket();
+		this.buckets.set(KEY, BUCKET);
+
+		return BUCKET;
+	}
+
+	/**
+	 * Computes the key of the bucket of a route.
+	 *
+	 * @param route API route of the request.
+	 * @param method HTTP method of the request.
+	 * @returns The bucket hash and major parameter of the route if its hash is known, otherwise
+	 * its method and normalized route.
+	 */
+	private bucketKey(route: string, method: RequestMethod): string {
+		const ROUTE = `${method} ${normalizeRoute(route)}`;
+		const HASH = this.hashes.get(ROUTE);
+
+		return HASH === undefined
+			? ROUTE
+			: `${HASH}:${majorParameter(route)}`;
+	}
+
+	/**
+	 * Removes the buckets that are idle and weren't used for some time.
+	 *
+	 * The bucket hashes of the routes whose bucket was removed are forgotten along with it.
+	 *
+	 * @param lifetime The time in milliseconds after which an unused bucket is removed.
+	 * Defaults to `BUCKET_LIFETIME`.
+	 * @returns The number of buckets removed.
+	 */
+	public sweep(lifetime = BUCKET_LIFETIME): number {
+		const NOW = Date.now();
+		let swept = 0;
+
+		for (const [KEY, BUCKET] of this.buckets) {
+			if (!BUCKET.busy() && NOW - BUCKET.lastUsed >= lifetime) {
+				this.buckets.delete(KEY);
+				swept++;
+			}
+		}
+
+		for (const [ROUTE, HASH] of this.hashes) {
+			if (!this.buckets.has(`${HASH}:${majorParameter(ROUTE)}`)) {
+				this.hashes.delete(ROUTE);
+			}
+		}
+
+		return swept;
+	}
+
+	/**
+	 * Updates the state of a bucket from the rate limit headers of a response.
+	 *
+	 * - The reset time is computed from `X-RateLimit-Reset-After`, in milliseconds, falling back
+	 * to `X-RateLimit-Reset`, which is in seconds since the epoch.
+	 * - Responses without rate limit headers leave the bucket untouched, so routes without rate
+	 * limits are never delayed.
+	 *
+	 * @param bucket The bucket of the request.
+	 * @param headers The headers of the response.
+	 */
+	private updateBucket(bucket: Bucket, headers: Headers): void {
+		const LIMIT = headers.get("X-RateLimit-Limit");
+		const REMAINING = headers.get("X-RateLimit-Remaining");
+		const RESET_AFTER = headers.get("X-RateLimit-Reset-After");
+		const RESET = headers.get("X-RateLimit-Reset");
+
+		if (LIMIT === null || REMAINING === null) {
+			return;
+		}
+
+		bucket.limit = Number(LIMIT);
+		bucket.remaining = Number(REMAINING);
+
+		if (RESET_AFTER !== null) {
+			bucket.reset = Date.now() + Number(RESET_AFTER) * 1_000;
+		} else if (RESET !== null) {
+			bucket.reset = Number(RESET) * 1_000;
+		}
+	}
+
+	/**
+	 * Stores the bucket hash Discord reports for a route, so the following requests of the route
+	 * use the bucket they actually share with other routes.
+	 *
+	 * The bucket of the route is moved under its hash, unless another route of the hash already
+	 * has one, so the requests of the route keep their rate limit state and queue.
+	 *
+	 * @param method HTTP method of the request.
+	 * @param route API route of the request.
+	 * @param response The response, including the `X-RateLimit-Bucket` header.
+	 */
+	private learnHash(method: RequestMethod, route: string, response: Response): void {
+		const HASH = response.headers.get("X-RateLimit-Bucket");
+		const ROUTE = `${method} ${normalizeRoute(route)}`;
+
+		if (HASH === null) {
+			return;
+		}
+
+		// Only the bucket of a route whose hash wasn't known yet is keyed by the route.
+		const KNOWN = this.hashes.has(ROUTE);
+		const BUCKET = this.buckets.get(ROUTE);
+
+		this.hashes.set(ROUTE, HASH);
+
+		if (KNOWN || BUCKET === undefined) {
+			return;
+		}
+
+		const KEY = this.bucketKey(route, method);
+		this.buckets.delete(ROUTE);
+
+		if (!this.buckets.has(KEY)) {
+			this.buckets.set(KEY, BUCKET);
+		}
+	}
+
+	/**
+	 * Builds the `multipart/form-data` body of a request uploading files.
+	 *
+	 * @param parameters The parameters of the request, including its files.
+	 * @returns The form with the `payload_json` and `files[n]` fields.
+	 */
+	private async buildForm(parameters: APIRequestParameters): Promise<FormData> {
+		const FORM = new FormData();
+
+		if (parameters.body) {
+			FORM.append("payload_json", JSON.stringify(parameters.body));
+		}
+
+		for (const [INDEX, FILE] of (parameters.files ?? []).entries()) {
+			FORM.append(`files[${INDEX}]`, await toBlob(FILE), FILE.name);
 		}
 
-		return this.buckets.get(route)!;
+		return FORM;
 	}
 
 	/**
 	 * Builds the headers for an API request.
 	 *
 	 * - Includes the authorization token, content type, and user agent.
+	 * - Omits the content type of multipart bodies, so their boundary is set along with it.
 	 * - Adds the audit log reason if provided.
 	 *
 	 * @param reason Optional reason for the request, used for audit logs.
+	 * @param multipart Whether the body is `multipart/form-data`. Defaults to `false`.
 	 * @returns An object representing the headers.
 	 */
-	private buildHeaders(reason?: string): Record<string, string> {
+	private buildHeaders(reason?: string, multipart = false): Record<string, string> {
 		const HEADERS: Record<string, string> = {
 			Authorization: `${this.settings.type || "Bot"} ${this.settings.token}`,
-			"User-Agent": this.settings.agent || "Kodkord (https://github.com/KodekoStudios)",
-			"Content-Type": "application/json"
+			"User-Agent": this.settings.agent || "Kodkord (https://github.com/KodekoStudios)"
 		};
 
+		if (!multipart) {
+			HEADERS["Content-Type"] = "application/json";
+		}
+
 		if (reason) {
 			HEADERS["X-Audit-Log-Reason"] = reason;
 		}
@@ -212,3 +998,131 @@ export class Rest {
 		return HEADERS;
 	}
 }
+
+/**
+ * Combines the signal of a request with the timeout of a single attempt.
+ *
+ * @param options The options of the request.
+ * @param timeout The time in milliseconds after which the attempt is aborted, or `0` for none.
+ * @returns The signal of the attempt, if any.
+ */
+function attemptSignal(options: RequestInit, timeout: number): AbortSignal | undefined {
+	const SIGNALS: AbortSignal[] = [];
+
+	if (options.signal) {
+		SIGNALS.push(options.signal);
+	}
+
+	if (timeout > 0) {
+		SIGNALS.push(AbortSignal.timeout(timeout));
+	}
+
+	return SIGNALS.length > 0
+		? AbortSignal.any(SIGNALS)
+		: undefined;
+}
+
+/**
+ * Waits for a duration, unless the signal is aborted first.
+ *
+ * @param duration The time to wait in milliseconds.
+ * @param signal A signal that rejects the wait when aborted.
+ * @returns A promise resolving once the duration has passed.
+ * @throws The reason of the signal if it is aborted.
+ */
+function sleep(duration: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const ABORT = (): void => {
+			clearTimeout(TIMER);
+			reject(signal?.reason);
+		};
+
+		const TIMER = setTimeout(
+			() => {
+				signal?.removeEventListener("abort", ABORT);
+				resolve();
+			},
+			duration
+		);
+
+		signal?.addEventListener("abort", ABORT, { once: true });
+	});
+}
+
+/**
+ * Decodes the body of a response as asked, or based on its content type.
+ *
+ * @param response The response to decode.
+ * @param type How to decode the body. Defaults to the type matching its content type.
+ * @returns The parsed JSON, text or binary body, or `undefined` if the body is empty and
+ * wasn't asked to be decoded as text or binary.
+ */
+async function decodeResponse(response: Response, type?: ResponseType): Promise<unknown> {
+	const BUFFER = response.status === 204
+		? Buffer.alloc(0)
+		: Buffer.from(await response.arrayBuffer());
+
+	if (BUFFER.length === 0 && type !== "text" && type !== "binary") {
+		return undefined;
+	}
+
+	const CONTENT_TYPE = (response.headers.get("Content-Type") ?? "")
+		.split(";")[0]
+		.trim()
+		.toLowerCase();
+
+	if (type === "json" || (type === undefined && isJSON(CONTENT_TYPE))) {
+		return JSON.parse(BUFFER.toString("utf8"));
+	}
+
+	if (type === "text" || (type === undefined && CONTENT_TYPE.startsWith("text/"))) {
+		return BUFFER.toString("utf8");
+	}
+
+	return BUFFER;
+}
+
+/**
+ * Checks if a content type describes a JSON body.
+ *
+ * @param type The content type, without its parameters.
+ * @returns `true` if the body is JSON, otherwise `false`.
+ */
+function isJSON(type: string): boolean {
+	return type === "application/json" || type.endsWith("+json");
+}
+
+/**
+ * Reads the contents of a file into a Blob, so it can be appended to a form.
+ *
+ * @param file The file to read.
+ * @returns A Blob with the contents and MIME type of the file.
+ */
+async function toBlob(file: RawFile): Promise<Blob> {
+	const { data: DATA } = file;
+
+	if (DATA instanceof Blob) {
+		return file.contentType
+			? new Blob([DATA], { type: file.contentType })
+			: DATA;
+	}
+
+	const CHUNKS: Uint8Array[] = [];
+
+	if (DATA instanceof Uint8Array) {
+		CHUNKS.push(DATA);
+	} else if (DATA instanceof Readable) {
+		for await (const CHUNK of DATA) {
+			CHUNKS.push(typeof CHUNK === "string" ? Buffer.from(CHUNK) : CHUNK);
+		}
+	} else {
+		CHUNKS.push(new Uint8Array(await new Response(DATA).arrayBuffer()));
+	}
+
+	return new Blob(CHUNKS, { type: file.contentType ?? "" });
+}
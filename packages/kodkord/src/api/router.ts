@@ -0,0 +1,505 @@
+import type {
+	RESTPatchAPIInteractionOriginalResponseJSONBody,
+	RESTDeleteAPIInteractionOriginalResponseResult,
+	RESTDeleteAPIChannelAllMessageReactionsResult,
+	RESTDeleteAPIChannelMessageUserReactionResult,
+	RESTPatchAPIInteractionOriginalResponseResult,
+	RESTPostAPICurrentUserCreateDMChannelJSONBody,
+	RESTDeleteAPIChannelMessageOwnReactionResult,
+	RESTPostAPIChannelMessagesBulkDeleteJSONBody,
+	RESTGetAPIChannelMessageReactionUsersResult,
+	RESTGetAPIInteractionOriginalResponseResult,
+	RESTPatchAPIApplicationGuildCommandJSONBody,
+	RESTPatchAPIWebhookWithTokenMessageJSONBody,
+	RESTPostAPIApplicationGuildCommandsJSONBody,
+	RESTPostAPICurrentUserCreateDMChannelResult,
+	RESTDeleteAPIWebhookWithTokenMessageResult,
+	RESTGetAPIChannelMessageReactionUsersQuery,
+	RESTPostAPIChannelMessagesBulkDeleteResult,
+	RESTPutAPIApplicationGuildCommandsJSONBody,
+	RESTDeleteAPIChannelMessageReactionResult,
+	RESTPatchAPIApplicationGuildCommandResult,
+	RESTPatchAPIGuildChannelPositionsJSONBody,
+	RESTPatchAPIWebhookWithTokenMessageResult,
+	RESTPostAPIApplicationGuildCommandsResult,
+	RESTPostAPIChannelMessagesThreadsJSONBody,
+	RESTGetAPIApplicationGuildCommandsResult,
+	RESTPostAPIChannelMessageCrosspostResult,
+	RESTPutAPIApplicationGuildCommandsResult,
+	RESTGetAPIApplicationGuildCommandResult,
+	RESTGetAPIApplicationGuildCommandsQuery,
+	RESTGetAPIWebhookWithTokenMessageResult,
+	RESTPatchAPIGuildChannelPositionsResult,
+	RESTPostAPIChannelMessagesThreadsResult,
+	RESTPatchAPIApplicationCommandJSONBody,
+	RESTPatchAPICurrentGuildMemberJSONBody,
+	RESTPatchAPIGuildRolePositionsJSONBody,
+	RESTPostAPIApplicationCommandsJSONBody,
+	RESTPostAPIInteractionCallbackJSONBody,
+	RESTPutAPIChannelMessageReactionResult,
+	RESTPutAPIApplicationCommandsJSONBody,
+	RESTDeleteAPIChannelPermissionResult,
+	RESTPatchAPIApplicationCommandResult,
+	RESTPatchAPIGuildRolePositionsResult,
+	RESTPatchAPIWebhookWithTokenJSONBody,
+	RESTPostAPIApplicationCommandsResult,
+	RESTPostAPIInteractionCallbackResult,
+	RESTDeleteAPICurrentUserGuildResult,
+	RESTDeleteAPIWebhookWithTokenResult,
+	RESTGetAPIApplicationCommandsResult,
+	RESTPostAPIInteractionCallbackQuery,
+	RESTPostAPIWebhookWithTokenJSONBody,
+	RESTPutAPIApplicationCommandsResult,
+	RESTPutAPIChannelPermissionJSONBody,
+	RESTDeleteAPIGuildMemberRoleResult,
+	RESTGetAPIApplicationCommandResult,
+	RESTGetAPIApplicationCommandsQuery,
+	RESTGetAPIGuildMembersSearchResult,
+	RESTPatchAPIChannelMessageJSONBody,
+	RESTPatchAPIWebhookWithTokenResult,
+	RESTDeleteAPIChannelMessageResult,
+	RESTGetAPICurrentUserGuildsResult,
+	RESTGetAPIGuildMembersSearchQuery,
+	RESTPostAPIChannelMessageJSONBody,
+	RESTPostAPIChannelThreadsJSONBody,
+	RESTPostAPIChannelWebhookJSONBody,
+	RESTPostAPIWebhookWithTokenResult,
+	RESTPutAPIChannelPermissionResult,
+	RESTGetAPICurrentUserGuildsQuery,
+	RESTGetAPIWebhookWithTokenResult,
+	RESTPatchAPIChannelMessageResult,
+	RESTPostAPIChannelInviteJSONBody,
+	RESTPostAPIWebhookWithTokenQuery,
+	RESTGetAPIChannelMessagesResult,
+	RESTGetAPIChannelWebhooksResult,
+	RESTPatchAPICurrentUserJSONBody,
+	RESTPatchAPIGuildMemberJSONBody,
+	RESTPostAPIChannelMessageResult,
+	RESTPostAPIChannelThreadsResult,
+	RESTPostAPIChannelWebhookResult,
+	RESTPostAPIGuildBulkBanJSONBody,
+	RESTPostAPIGuildChannelJSONBody,
+	RESTPutAPIGuildMemberRoleResult,
+	RESTDeleteAPIGuildMemberResult,
+	RESTGetAPIChannelInvitesResult,
+	RESTGetAPIChannelMessageResult,
+	RESTGetAPIChannelMessagesQuery,
+	RESTPatchAPIGuildEmojiJSONBody,
+	RESTPostAPIChannelInviteResult,
+	RESTPostAPIChannelTypingResult,
+	RESTDeleteAPIChannelPinResult,
+	RESTDeleteAPIGuildEmojiResult,
+	RESTGetAPIGuildChannelsResult,
+	RESTGetAPIGuildWebhooksResult,
+	RESTPatchAPICurrentUserResult,
+	RESTPatchAPIGuildMemberResult,
+	RESTPatchAPIGuildRoleJSONBody,
+	RESTPostAPIGuildBulkBanResult,
+	RESTPostAPIGuildChannelResult,
+	RESTPostAPIGuildEmojiJSONBody,
+	RESTDeleteAPIGuildRoleResult,
+	RESTGetAPIGuildInvitesResult,
+	RESTGetAPIGuildMembersResult,
+	RESTGetAPIGuildPreviewResult,
+	RESTGetAPIGuildThreadsResult,
+	RESTPatchAPIGuildEmojiResult,
+	RESTPostAPIGuildRoleJSONBody,
+	RESTDeleteAPIGuildBanResult,
+	RESTGetAPIChannelPinsResult,
+	RESTGetAPICurrentUserResult,
+	RESTGetAPIGuildEmojisResult,
+	RESTGetAPIGuildMemberResult,
+	RESTGetAPIGuildMembersQuery,
+	RESTPatchAPIChannelJSONBody,
+	RESTPatchAPIGuildRoleResult,
+	RESTPostAPIGuildEmojiResult,
+	RESTDeleteAPIChannelResult,
+	RESTGetAPIGatewayBotResult,
+	RESTGetAPIGuildEmojiResult,
+	RESTGetAPIGuildRolesResult,
+	RESTPostAPIGuildRoleResult,
+	RESTPutAPIChannelPinResult,
+	RESTPutAPIGuildBanJSONBody,
+	RESTDeleteAPIInviteResult,
+	RESTGetAPIGuildBansResult,
+	RESTGetAPIGuildRoleResult,
+	RESTPatchAPIChannelResult,
+	RESTPatchAPIGuildJSONBody,
+	RESTGetAPIAuditLogResult,
+	RESTGetAPIGuildBanResult,
+	RESTGetAPIGuildBansQuery,
+	RESTPutAPIGuildBanResult,
+	RESTGetAPIAuditLogQuery,
+	RESTGetAPIChannelResult,
+	RESTGetAPIGatewayResult,
+	RESTPatchAPIGuildResult,
+	RESTGetAPIInviteResult,
+	RESTGetAPIGuildResult,
+	RESTGetAPIInviteQuery,
+	RESTGetAPIGuildQuery,
+	RESTGetAPIUserResult
+} from "discord-api-types/v10";
+import type { APIRequestParameters, RequestMethod, Rest } from "./rest";
+
+/** Options of a request sent through a route, with a typed query if the route accepts one. */
+export type RouteOptions<Query = undefined> = Omit<
+	APIRequestParameters,
+	"response" | "query" | "body"
+> &
+	([Query] extends [undefined]
+		? unknown
+		: { query?: Query });
+
+/**
+ * The response of a route.
+ *
+ * discord-api-types types empty responses as `never`, which `Rest` resolves to `undefined`.
+ */
+export type RouteResult<Type> = [Type] extends [never]
+	? undefined
+	: Type;
+
+/** The arguments of a route method sending a body, which is optional if the route has none. */
+type BodyArguments<Body, Query> = [Body] extends [undefined]
+	? [body?: undefined, options?: RouteOptions<Query>]
+	: [body: Body, options?: RouteOptions<Query>];
+
+/** A route answering GET requests. */
+export interface Get<Returns, Query = undefined> {
+	get(options?: RouteOptions<Query>): Promise<RouteResult<Returns>>;
+}
+
+/** A route answering POST requests. */
+export interface Post<Returns, Body = undefined, Query = undefined> {
+	post(...args: BodyArguments<Body, Query>): Promise<RouteResult<Returns>>;
+}
+
+/** A route answering PATCH requests. */
+export interface Patch<Returns, Body = undefined> {
+	patch(...args: BodyArguments<Body, undefined>): Promise<RouteResult<Returns>>;
+}
+
+/** A route answering PUT requests. */
+export interface Put<Returns, Body = undefined> {
+	put(...args: BodyArguments<Body, undefined>): Promise<RouteResult<Returns>>;
+}
+
+/** A route answering DELETE requests. */
+export interface Delete<Returns> {
+	delete(options?: RouteOptions): Promise<RouteResult<Returns>>;
+}
+
+/** `/applications/{application.id}/commands/{command.id}` */
+export interface ApplicationCommandRoutes
+	extends Get<RESTGetAPIApplicationCommandResult>,
+		Patch<RESTPatchAPIApplicationCommandResult, RESTPatchAPIApplicationCommandJSONBody>,
+		Delete<never> {}
+
+/** `/applications/{application.id}/commands` */
+export interface ApplicationCommandsRoutes
+	extends Get<RESTGetAPIApplicationCommandsResult, RESTGetAPIApplicationCommandsQuery>,
+		Post<RESTPostAPIApplicationCommandsResult, RESTPostAPIApplicationCommandsJSONBody>,
+		Put<RESTPutAPIApplicationCommandsResult, RESTPutAPIApplicationCommandsJSONBody> {
+	(id: string): ApplicationCommandRoutes;
+}
+
+/** `/applications/{application.id}/guilds/{guild.id}/commands/{command.id}` */
+export interface ApplicationGuildCommandRoutes
+	extends Get<RESTGetAPIApplicationGuildCommandResult>,
+		Patch<RESTPatchAPIApplicationGuildCommandResult, RESTPatchAPIApplicationGuildCommandJSONBody>,
+		Delete<never> {}
+
+/** `/applications/{application.id}/guilds/{guild.id}/commands` */
+export interface ApplicationGuildCommandsRoutes
+	extends Get<RESTGetAPIApplicationGuildCommandsResult, RESTGetAPIApplicationGuildCommandsQuery>,
+		Post<RESTPostAPIApplicationGuildCommandsResult, RESTPostAPIApplicationGuildCommandsJSONBody>,
+		Put<RESTPutAPIApplicationGuildCommandsResult, RESTPutAPIApplicationGuildCommandsJSONBody> {
+	(id: string): ApplicationGuildCommandRoutes;
+}
+
+/** `/applications/{application.id}` */
+export interface ApplicationRoutes {
+	commands: ApplicationCommandsRoutes;
+	guilds(id: string): { commands: ApplicationGuildCommandsRoutes };
+}
+
+/** `/channels/{channel.id}/messages/{message.id}/reactions/{emoji}` */
+export interface ReactionRoutes
+	extends Get<
+			RESTGetAPIChannelMessageReactionUsersResult,
+			RESTGetAPIChannelMessageReactionUsersQuery
+		>,
+		Delete<RESTDeleteAPIChannelMessageReactionResult> {
+	(user: "@me"): Put<RESTPutAPIChannelMessageReactionResult> &
+		Delete<RESTDeleteAPIChannelMessageOwnReactionResult>;
+	(user: string): Delete<RESTDeleteAPIChannelMessageUserReactionResult>;
+}
+
+/** `/channels/{channel.id}/messages/{message.id}` */
+export interface MessageRoutes
+	extends Get<RESTGetAPIChannelMessageResult>,
+		Patch<RESTPatchAPIChannelMessageResult, RESTPatchAPIChannelMessageJSONBody>,
+		Delete<RESTDeleteAPIChannelMessageResult> {
+	crosspost: Post<RESTPostAPIChannelMessageCrosspostResult>;
+	reactions: Delete<RESTDeleteAPIChannelAllMessageReactionsResult> &
+		((emoji: string) => ReactionRoutes);
+	threads: Post<RESTPostAPIChannelMessagesThreadsResult, RESTPostAPIChannelMessagesThreadsJSONBody>;
+}
+
+/** `/channels/{channel.id}/messages` */
+export interface MessagesRoutes
+	extends Get<RESTGetAPIChannelMessagesResult, RESTGetAPIChannelMessagesQuery>,
+		Post<RESTPostAPIChannelMessageResult, RESTPostAPIChannelMessageJSONBody> {
+	(id: string): MessageRoutes;
+	bulkDelete: Post<
+		RESTPostAPIChannelMessagesBulkDeleteResult,
+		RESTPostAPIChannelMessagesBulkDeleteJSONBody
+	>;
+}
+
+/** `/channels/{channel.id}` */
+export interface ChannelRoutes
+	extends Get<RESTGetAPIChannelResult>,
+		Patch<RESTPatchAPIChannelResult, RESTPatchAPIChannelJSONBody>,
+		Delete<RESTDeleteAPIChannelResult> {
+	invites: Get<RESTGetAPIChannelInvitesResult> &
+		Post<RESTPostAPIChannelInviteResult, RESTPostAPIChannelInviteJSONBody>;
+	messages: MessagesRoutes;
+	permissions(
+		overwrite: string
+	): Put<RESTPutAPIChannelPermissionResult, RESTPutAPIChannelPermissionJSONBody> &
+		Delete<RESTDeleteAPIChannelPermissionResult>;
+	pins: Get<RESTGetAPIChannelPinsResult> &
+		((message: string) => Put<RESTPutAPIChannelPinResult> & Delete<RESTDeleteAPIChannelPinResult>);
+	threads: Post<RESTPostAPIChannelThreadsResult, RESTPostAPIChannelThreadsJSONBody>;
+	typing: Post<RESTPostAPIChannelTypingResult>;
+	webhooks: Get<RESTGetAPIChannelWebhooksResult> &
+		Post<RESTPostAPIChannelWebhookResult, RESTPostAPIChannelWebhookJSONBody>;
+}
+
+/** `/guilds/{guild.id}/members/{user.id}` */
+export interface GuildMemberRoutes
+	extends Get<RESTGetAPIGuildMemberResult>,
+		Patch<RESTPatchAPIGuildMemberResult, RESTPatchAPIGuildMemberJSONBody>,
+		Delete<RESTDeleteAPIGuildMemberResult> {
+	roles(
+		role: string
+	): Put<RESTPutAPIGuildMemberRoleResult> & Delete<RESTDeleteAPIGuildMemberRoleResult>;
+}
+
+/** `/guilds/{guild.id}/members` */
+export interface GuildMembersRoutes
+	extends Get<RESTGetAPIGuildMembersResult, RESTGetAPIGuildMembersQuery> {
+	(user: "@me"): Patch<RESTPatchAPIGuildMemberResult, RESTPatchAPICurrentGuildMemberJSONBody>;
+	(user: string): GuildMemberRoutes;
+	search: Get<RESTGetAPIGuildMembersSearchResult, RESTGetAPIGuildMembersSearchQuery>;
+}
+
+/** `/guilds/{guild.id}` */
+export interface GuildRoutes
+	extends Get<RESTGetAPIGuildResult, RESTGetAPIGuildQuery>,
+		Patch<RESTPatchAPIGuildResult, RESTPatchAPIGuildJSONBody> {
+	auditLogs: Get<RESTGetAPIAuditLogResult, RESTGetAPIAuditLogQuery>;
+	bans: Get<RESTGetAPIGuildBansResult, RESTGetAPIGuildBansQuery> &
+		((user: string) => Get<RESTGetAPIGuildBanResult> &
+			Put<RESTPutAPIGuildBanResult, RESTPutAPIGuildBanJSONBody> &
+			Delete<RESTDeleteAPIGuildBanResult>);
+	bulkBan: Post<RESTPostAPIGuildBulkBanResult, RESTPostAPIGuildBulkBanJSONBody>;
+	channels: Get<RESTGetAPIGuildChannelsResult> &
+		Post<RESTPostAPIGuildChannelResult, RESTPostAPIGuildChannelJSONBody> &
+		Patch<RESTPatchAPIGuildChannelPositionsResult, RESTPatchAPIGuildChannelPositionsJSONBody>;
+	emojis: Get<RESTGetAPIGuildEmojisResult> &
+		Post<RESTPostAPIGuildEmojiResult, RESTPostAPIGuildEmojiJSONBody> &
+		((emoji: string) => Get<RESTGetAPIGuildEmojiResult> &
+			Patch<RESTPatchAPIGuildEmojiResult, RESTPatchAPIGuildEmojiJSONBody> &
+			Delete<RESTDeleteAPIGuildEmojiResult>);
+	invites: Get<RESTGetAPIGuildInvitesResult>;
+	members: GuildMembersRoutes;
+	preview: Get<RESTGetAPIGuildPreviewResult>;
+	roles: Get<RESTGetAPIGuildRolesResult> &
+		Post<RESTPostAPIGuildRoleResult, RESTPostAPIGuildRoleJSONBody> &
+		Patch<RESTPatchAPIGuildRolePositionsResult, RESTPatchAPIGuildRolePositionsJSONBody> &
+		((role: string) => Get<RESTGetAPIGuildRoleResult> &
+			Patch<RESTPatchAPIGuildRoleResult, RESTPatchAPIGuildRoleJSONBody> &
+			Delete<RESTDeleteAPIGuildRoleResult>);
+	threads: { active: Get<RESTGetAPIGuildThreadsResult> };
+	webhooks: Get<RESTGetAPIGuildWebhooksResult>;
+}
+
+/** `/interactions/{interaction.id}/{interaction.token}` */
+export interface InteractionRoutes {
+	callback: Post<
+		RESTPostAPIInteractionCallbackResult,
+		RESTPostAPIInteractionCallbackJSONBody,
+		RESTPostAPIInteractionCallbackQuery
+	>;
+}
+
+/** `/webhooks/{webhook.id}/{webhook.token}/messages/{message.id}` */
+export interface WebhookMessageRoutes
+	extends Get<RESTGetAPIWebhookWithTokenMessageResult>,
+		Patch<RESTPatchAPIWebhookWithTokenMessageResult, RESTPatchAPIWebhookWithTokenMessageJSONBody>,
+		Delete<RESTDeleteAPIWebhookWithTokenMessageResult> {}
+
+/**
+ * `/webhooks/{webhook.id}/{webhook.token}`
+ *
+ * Interaction followups and original responses are sent through the webhook of the application,
+ * with the token of the interaction.
+ */
+export interface WebhookRoutes
+	extends Get<RESTGetAPIWebhookWithTokenResult>,
+		Post<
+			RESTPostAPIWebhookWithTokenResult,
+			RESTPostAPIWebhookWithTokenJSONBody,
+			RESTPostAPIWebhookWithTokenQuery
+		>,
+		Patch<RESTPatchAPIWebhookWithTokenResult, RESTPatchAPIWebhookWithTokenJSONBody>,
+		Delete<RESTDeleteAPIWebhookWithTokenResult> {
+	messages: {
+		(message: "@original"): Get<RESTGetAPIInteractionOriginalResponseResult> &
+			Patch<
+				RESTPatchAPIInteractionOriginalResponseResult,
+				RESTPatchAPIInteractionOriginalResponseJSONBody
+			> &
+			Delete<RESTDeleteAPIInteractionOriginalResponseResult>;
+		(message: string): WebhookMessageRoutes;
+	};
+}
+
+/** `/users/@me` */
+export interface CurrentUserRoutes
+	extends Get<RESTGetAPICurrentUserResult>,
+		Patch<RESTPatchAPICurrentUserResult, RESTPatchAPICurrentUserJSONBody> {
+	channels: Post<
+		RESTPostAPICurrentUserCreateDMChannelResult,
+		RESTPostAPICurrentUserCreateDMChannelJSONBody
+	>;
+	guilds: Get<RESTGetAPICurrentUserGuildsResult, RESTGetAPICurrentUserGuildsQuery> &
+		((guild: string) => Delete<RESTDeleteAPICurrentUserGuildResult>);
+}
+
+/**
+ * The typed routes of the Discord API.
+ *
+ * Each property or call adds a segment to the route, with camelCase properties written in
+ * kebab-case, until a method sends the request. Bodies, queries and responses are typed after
+ * discord-api-types. Routes missing here can still be requested through the methods of `Rest`.
+ *
+ * @example
+ * await rest.api.channels(id).messages.post({ content: "Hello!" });
+ * // => POST /channels/{id}/messages
+ */
+export interface APIRoutes {
+	applications(id: string): ApplicationRoutes;
+	channels(id: string): ChannelRoutes;
+	gateway: Get<RESTGetAPIGatewayResult> & { bot: Get<RESTGetAPIGatewayBotResult> };
+	guilds(id: string): GuildRoutes;
+	interactions(id: string, token: string): InteractionRoutes;
+	invites(code: string): Get<RESTGetAPIInviteResult, RESTGetAPIInviteQuery> &
+		Delete<RESTDeleteAPIInviteResult>;
+	users: {
+		(user: "@me"): CurrentUserRoutes;
+		(user: string): Get<RESTGetAPIUserResult>;
+	};
+	webhooks(id: string, token: string): WebhookRoutes;
+}
+
+/** Methods ending a route by sending its request. */
+const METHODS: readonly string[] = ["delete", "patch", "post", "get", "put"];
+
+/**
+ * Creates the typed routes of the Discord API, sending their requests through a `Rest` instance.
+ *
+ * @param rest The `Rest` instance sending the requests.
+ * @returns The root of the routes.
+ */
+export function createRouter(rest: Rest): APIRoutes {
+	return route(rest, "") as APIRoutes;
+}
+
+/**
+ * Creates a route, which adds a segment for each property accessed and each argument called with.
+ *
+ * Arguments are encoded, so values such as emojis and tokens can't change the path.
+ *
+ * @param rest The `Rest` instance sending the requests.
+ * @param path The path of the route so far.
+ * @returns A proxy of the route.
+ */
+function route(rest: Rest, path: string): unknown {
+	const CALL = (...segments: string[]): unknown =>
+		route(rest, `${path}/${segments.map(encodeSegment).join("/")}`);
+
+	return new Proxy(CALL, {
+		get: (_, key) => {
+			// Routes aren't promises, so awaiting one mustn't call it.
+			if (typeof key !== "string" || key === "then") {
+				return undefined;
+			}
+
+			if (METHODS.includes(key)) {
+				return send(rest, key as Lowercase<RequestMethod>, path);
+			}
+
+			const SEGMENT = key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+			return route(rest, `${path}/${SEGMENT}`);
+		}
+	});
+}
+
+/**
+ * Creates the function sending a request to a route.
+ *
+ * @param rest The `Rest` instance sending the request.
+ * @param method The method of the request.
+ * @param path The path of the route.
+ * @returns A function taking the body, if the method sends one, and the options of the request.
+ */
+function send(
+	rest: Rest,
+	method: Lowercase<RequestMethod>,
+	path: string
+): (...args: never[]) => Promise<unknown> {
+	if (method === "get" || method === "delete") {
+		return (options: RouteOptions<object> = {}) =>
+			rest[method](path, { ...options, query: stringifyQuery(options.query) });
+	}
+
+	return (body?: unknown, options: RouteOptions<object> = {}) =>
+		rest[method](path, {
+			...options,
+			body: body as APIRequestParameters["body"],
+			query: stringifyQuery(options.query)
+		});
+}
+
+/**
+ * Converts the values of a query to strings, leaving out those that are `undefined`.
+ *
+ * @param query The query to convert.
+ * @returns The converted query, if any.
+ */
+function stringifyQuery(query?: object): Record<string, string> | undefined {
+	if (!query) {
+		return undefined;
+	}
+
+	return Object.fromEntries(
+		Object.entries(query)
+			.filter(([, value]) => value !== undefined)
+			.map(([key, value]) => [key, String(value)])
+	);
+}
+
+/**
+ * Encodes an argument of a route as a path segment.
+ *
+ * `@` is kept as it is, as paths allow it and Discord refers to the current user as `@me`.
+ *
+ * @param segment The argument to encode.
+ * @returns The encoded segment.
+ */
+function encodeSegment(segment: string): string {
+	return encodeURIComponent(segment).replace(/%40/g, "@");
+}
@@ -0,0 +1,43 @@
+/** Route segments whose Id is a major parameter, giving each resource its own rate limits. */
+const MAJOR_PARAMETERS: readonly string[] = ["channels", "guilds", "webhooks"];
+
+/**
+ * Normalizes a route into the template its rate limits are shared by.
+ *
+ * - Ids of major parameters (channels, guilds, and webhooks along with their tokens) are kept,
+ * as Discord limits each of them separately.
+ * - Any other Id is replaced by `:id`, and reactions and interaction tokens by placeholders.
+ * - Query parameters are removed.
+ *
+ * @example
+ * normalizeRoute("/channels/123/messages/456");
+ * // => "/channels/123/messages/:id"
+ *
+ * @param route The route to normalize.
+ * @returns The normalized route.
+ */
+export function normalizeRoute(route: string): string {
+	return route
+		.split("?")[0]
+		.replace(/\/([\w-]+)\/\d{16,20}/g, (match, segment: string) =>
+			MAJOR_PARAMETERS.includes(segment)
+				? match
+				: `/${segment}/:id`
+		)
+		.replace(/\/reactions\/[^/]+(?:\/[^/]+)?/, "/reactions/:reaction")
+		.replace(/\/interactions\/:id\/[^/]+/, "/interactions/:id/:token");
+}
+
+/**
+ * Extracts the major parameter of a route, which separates its rate limits from the same
+ * route of other resources.
+ *
+ * @param route The route to extract the major parameter from.
+ * @returns The major parameter, or `global` if the route doesn't have one.
+ */
+export function majorParameter(route: string): string {
+	return (
+		/\/(?:channels|guilds)\/\d{16,20}|\/webhooks\/\d{16,20}(?:\/[^/?]+)?/.exec(route)?.[0] ??
+		"global"
+	);
+}
@@ -1,13 +1,88 @@
 import type { Events } from "@core/client";
+import type { Shard } from "@core/shard";
 
-import { type GatewayReceivePayload, GatewayOpcodes, GatewayVersion } from "discord-api-types/v10";
-import { Trace, Warn } from "@common/log";
+import {
+	type GatewayPresenceUpdateData,
+	type GatewayDispatchPayload,
+	type GatewayReceivePayload,
+	type GatewaySendPayload,
+	GatewayDispatchEvents,
+	GatewayCloseCodes,
+	GatewayOpcodes,
+	GatewayVersion
+} from "discord-api-types/v10";
+import { Panic, Trace, Warn } from "@common/log";
 import WS from "ws";
 
+import { type GuildMembersRequest, type GuildMembersResult, GuildMembersRequests } from "./members";
+import { type PresenceSettings, resolvePresence } from "./presence";
+import { pack, unpack } from "./etf";
+import { Inflator } from "./inflator";
+import { Bucket } from "./bucket";
+
 /**
- * The WebSocket address for connecting to the Discord Gateway.
+ * The default WebSocket address for connecting to the Discord Gateway.
+ *
+ * Query parameters such as the Gateway version and encoding are appended on connection.
  */
-export const WEB_SOCKET_ADDRESS = `wss://gateway.discord.gg/?v=${GatewayVersion}&encoding=json`;
+export const WEB_SOCKET_ADDRESS = "wss://gateway.discord.gg";
+
+/** The maximum number of payloads Discord allows to be sent per connection in each window. */
+export const GATEWAY_SEND_LIMIT = 120;
+
+/** The window in milliseconds of the Gateway send rate limit. */
+export const GATEWAY_SEND_WINDOW = 60_000;
+
+/**
+ * Sends of each window reserved for heartbeats, identifies and resumes.
+ *
+ * These payloads skip the send queue, so they are never delayed by other payloads.
+ */
+const GATEWAY_SEND_RESERVE = 5;
+
+/** Close codes after which Discord won't accept the connection again without changes. */
+const FATAL_CLOSE_CODES: readonly number[] = [
+	GatewayCloseCodes.AuthenticationFailed,
+	GatewayCloseCodes.InvalidShard,
+	GatewayCloseCodes.ShardingRequired,
+	GatewayCloseCodes.InvalidAPIVersion,
+	GatewayCloseCodes.InvalidIntents,
+	GatewayCloseCodes.DisallowedIntents
+];
+
+/** Close codes after which the session can't be resumed, so a new one must be identified. */
+const UNRESUMABLE_CLOSE_CODES: readonly number[] = [
+	GatewayCloseCodes.InvalidSeq,
+	GatewayCloseCodes.SessionTimedOut
+];
+
+/**
+ * Settings for the reconnection policy of a WebSocket connection.
+ *
+ * The delay between attempts grows exponentially from `delay` up to `maxDelay`,
+ * plus a random amount of up to `jitter` milliseconds.
+ */
+export interface ReconnectSettings {
+	/** The delay in milliseconds before the first reconnection attempt. */
+	delay: number;
+
+	/** The maximum delay in milliseconds between reconnection attempts. */
+	maxDelay: number;
+
+	/** The maximum random delay in milliseconds added to each attempt. */
+	jitter: number;
+
+	/** The maximum number of consecutive attempts before giving up. */
+	attempts: number;
+}
+
+/** The default reconnection policy. */
+export const DEFAULT_RECONNECT_SETTINGS: Readonly<ReconnectSettings> = {
+	delay: 1_000,
+	maxDelay: 60_000,
+	jitter: 1_000,
+	attempts: 10
+};
 
 /**
  * Settings required for establishing a WebSocket connection to the Discord Gateway.
@@ -16,17 +91,64 @@ export interface WebSocketSettings {
 	/** The bot's authentication token. */
 	token: string;
 
+	/** The address of the Discord Gateway. Defaults to `WEB_SOCKET_ADDRESS`. */
+	url?: string;
+
 	/** The bitwise value representing the Gateway intents. */
 	intents: number;
 
 	/** The device name to be sent in the identify payload. */
 	device: string;
 
+	/** The library name to be sent in the identify payload. */
+	browser: string;
+
 	/** The operating system of the host machine. */
 	os: "windows" | "linux" | "macos";
 
-	/** Event handlers for incoming Gateway events. */
+	/**
+	 * The shard Id and the total number of shards, sent in the identify payload.
+	 *
+	 * Defaults to the Id of the shard and the total number of shards of its client at the time of
+	 * each identify, so it follows changes of the shard count.
+	 */
+	shard?: [id: number, total: number];
+
+	/** The initial presence to be sent in the identify payload. */
+	presence?: GatewayPresenceUpdateData;
+
+	/** The number of members (50 to 250) after which offline members of a guild aren't sent. */
+	largeThreshold?: number;
+
+	/** The emitter incoming Gateway payloads are emitted through. */
 	events: Events;
+
+	/**
+	 * The transport compression of the connection.
+	 *
+	 * With `"zlib-stream"`, the whole connection is compressed through a single zlib context,
+	 * which saves bandwidth at the cost of some processing. Disabled by default.
+	 */
+	compress?: "zlib-stream";
+
+	/**
+	 * The encoding of the payloads.
+	 *
+	 * With `"etf"`, payloads are sent as Erlang External Term Format binaries, which are faster
+	 * to decode than JSON. Handlers receive the same data with either encoding. Defaults to `"json"`.
+	 */
+	encoding?: "json" | "etf";
+
+	/** The reconnection policy, falling back to `DEFAULT_RECONNECT_SETTINGS` for missing values. */
+	reconnect?: Partial<ReconnectSettings>;
+
+	/**
+	 * Schedules the identify payload, used to honour Discord's identify rate limit across shards.
+	 *
+	 * The scheduled function returns whether the payload was actually sent. If not provided,
+	 * the identify payload is sent right away.
+	 */
+	queue?: (identify: () => boolean) => void;
 }
 
 /**
@@ -35,7 +157,7 @@ export interface WebSocketSettings {
  * The `WebSocket` class handles the low-level communication with the Discord Gateway,
  * including sending the initial identify payload, responding to heartbeats, and
  * processing incoming Gateway events. It ensures the connection remains active and
- * will automatically attempt to reconnect in case of disconnections.
+ * will automatically attempt to resume the session in case of disconnections.
  */
 export class WebSocket {
 	/**
@@ -46,133 +168,623 @@ export class WebSocket {
 	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
 	private heartbeatInterval?: Timer;
 
+	/** The timer of the first heartbeat, delayed by a random jitter as Discord recommends. */
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	private heartbeatTimeout?: Timer;
+
+	/** Whether the last heartbeat sent was acknowledged by the Gateway. */
+	private acknowledged: boolean;
+
+	/** Timestamp of when the last heartbeat was sent. */
+	private heartbeatSentAt: number;
+
+	/** The timer of the next scheduled reconnection attempt. */
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	private reconnectTimeout?: Timer;
+
+	/** The timer identifying again after an invalid session that can't be resumed. */
+	// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+	private identifyTimeout?: Timer;
+
+	/** The number of consecutive reconnection attempts since the last successful connection. */
+	private attempts: number;
+
+	/** Queue of outgoing payloads, honouring the Gateway send rate limit. */
+	private readonly sender: Bucket;
+
+	/** Whether the connection identified or resumed, so queued payloads are being sent. */
+	private authenticated: boolean;
+
+	/** Guild members requests waiting for their chunks. */
+	private readonly memberRequests: GuildMembersRequests;
+
 	/** The underlying WebSocket connection instance. */
 	private ws?: WS;
 
+	/** The zlib context of the current connection, if transport compression is enabled. */
+	private inflator?: Inflator;
+
+	/** The Id of the current session, received in the `READY` dispatch. */
+	private sessionId?: string;
+
+	/** The address to resume the current session on, received in the `READY` dispatch. */
+	private resumeURL?: string;
+
+	/** The last sequence number received from the Gateway. */
+	private sequence: number | null;
+
 	/** Configuration settings for the WebSocket connection. */
 	public readonly settings: WebSocketSettings;
 
+	/** The shard this connection belongs to, passed to the dispatch listeners. */
+	public readonly shard: Shard;
+
+	/**
+	 * The time in milliseconds between the last heartbeat and its acknowledgement.
+	 *
+	 * It is `-1` until the first acknowledgement is received.
+	 */
+	public latency: number;
+
 	/**
 	 * Creates a new `WebSocket` instance.
 	 *
 	 * @param settings The settings required to establish a WebSocket connection.
+	 * @param shard The shard this connection belongs to.
 	 */
-	public constructor(settings: WebSocketSettings) {
+	public constructor(settings: WebSocketSettings, shard: Shard) {
 		this.settings = settings;
+		this.shard = shard;
+		this.sequence = null;
+		this.attempts = 0;
+		this.sender = new Bucket(GATEWAY_SEND_LIMIT - GATEWAY_SEND_RESERVE);
+		this.sender.pause();
+		this.authenticated = false;
+		this.memberRequests = new GuildMembersRequests();
+		this.acknowledged = true;
+		this.heartbeatSentAt = 0;
+		this.latency = -1;
 	}
 
 	/**
 	 * Establishes a WebSocket connection to the Discord Gateway.
 	 *
 	 * - Sets up event listeners for handling incoming messages, connection lifecycle events, and errors.
-	 * - Automatically sends the identify payload upon successful connection.
+	 * - Connects to the resume address if there is a session to resume.
 	 * - Begins sending periodic heartbeats upon receiving the "Hello" event from the Gateway.
+	 * - Resumes the previous session upon receiving the "Hello" event, or identifies if there is none.
 	 */
 	public connect(): void {
-		this.ws = new WS(WEB_SOCKET_ADDRESS);
+		this.ws = new WS(this.address(this.resumeURL ?? this.settings.url ?? WEB_SOCKET_ADDRESS));
+		// Each connection starts a new zlib context.
+		this.inflator = this.settings.compress === "zlib-stream"
+			? new Inflator()
+			: undefined;
 
 		this.ws.on("open", () => {
 			new Trace("Web Socket", "Connected to the Discord gateway.").trace();
-			this.identify();
+			// Every connection starts a new send rate limit window.
+			this.sender.refill();
 		});
 
 		this.ws.on("message", (data) => {
-			// eslint-disable-next-line @typescript-eslint/no-base-to-string
-			const PAYLOAD = JSON.parse(data.toString()) as GatewayReceivePayload;
-
-			switch (PAYLOAD.op) {
-				case GatewayOpcodes.Dispatch:
-					this.settings.events.get(PAYLOAD.t)?.(PAYLOAD.d);
-					break;
-
-				case GatewayOpcodes.Heartbeat:
-					this.heartbeat();
-					break;
-
-				case GatewayOpcodes.InvalidSession:
-					new Warn("Web Socket", "Invalid session.").warn();
-					break;
-
-				case GatewayOpcodes.Reconnect:
-					new Trace("Web Socket", "Reconnecting to the Discord gateway.").trace();
-					this.disconnect();
-					this.connect();
-					break;
-
-				case GatewayOpcodes.Hello:
-					this.heartbeatInterval = setInterval(
-						() => {
-							this.heartbeat();
-						},
-						PAYLOAD.d.heartbeat_interval
-					);
-					break;
-
-				case GatewayOpcodes.HeartbeatAck:
-					new Trace("Web Socket", "Received heartbeat acknowledgement.").trace();
-					break;
-			}
+			this.receive(data as Buffer);
+		});
+
+		this.ws.on("close", (code) => {
+			this.close(code);
+		});
+
+		this.ws.on("error", (error: Error) => {
+			new Warn("Web Socket", error.message).warn();
+			this.settings.events.emit("error", error, this.shard);
 		});
+	}
 
-		this.ws.on("close", () => {
+	/**
+	 * Decodes a message received from the Discord Gateway and handles its payload.
+	 *
+	 * Compressed messages are buffered and decompressed in order, and messages of a previous
+	 * connection are discarded.
+	 *
+	 * @param data The raw message received from the Gateway.
+	 */
+	private receive(data: Buffer): void {
+		const TIMESTAMP = Date.now();
+		const INFLATOR = this.inflator;
+
+		if (INFLATOR === undefined) {
+			this.handle(this.decode(data), TIMESTAMP);
+			return;
+		}
+
+		INFLATOR.push(data)
+			.then((message) => {
+				if (message !== undefined && this.inflator === INFLATOR) {
+					this.handle(this.decode(message), TIMESTAMP);
+				}
+			})
+			.catch((error: unknown) => {
+				new Warn(
+					"Web Socket",
+					"Failed to decompress a message from the Discord gateway.",
+					(error as Error).message
+				).warn();
+			});
+	}
+
+	/**
+	 * Decodes a complete message with the encoding of the connection.
+	 *
+	 * @param message The uncompressed message.
+	 * @returns The payload of the message, or `undefined` if it couldn't be decoded.
+	 */
+	private decode(message: Buffer): GatewayReceivePayload | undefined {
+		try {
+			return (
+				this.settings.encoding === "etf"
+					? unpack(message)
+					: JSON.parse(message.toString())
+			) as GatewayReceivePayload;
+		} catch (error) {
 			new Warn(
 				"Web Socket",
-				"Connection to the Discord gateway was closed.",
-				"The connection will be attempted to be reestablished..."
+				"Failed to decode a message from the Discord gateway.",
+				(error as Error).message
 			).warn();
 
-			// !TODO: Exponential backoff.
+			return undefined;
+		}
+	}
+
+	/**
+	 * Handles a payload received from the Discord Gateway.
+	 *
+	 * - Keeps track of the last sequence number.
+	 * - Emits the payload through the `raw` event.
+	 * - Routes the payload to the corresponding handler based on its opcode.
+	 *
+	 * @param payload The payload received from the Gateway, ignored if it couldn't be decoded.
+	 * @param timestamp The time in milliseconds the message was received at.
+	 */
+	private handle(payload: GatewayReceivePayload | undefined, timestamp: number): void {
+		if (payload === undefined) {
+			return;
+		}
+
+		if (payload.s !== null) {
+			this.sequence = payload.s;
+		}
+
+		this.settings.events.emit("raw", payload);
+
+		switch (payload.op) {
+			case GatewayOpcodes.Dispatch:
+				this.dispatch(payload, timestamp);
+				break;
+
+			case GatewayOpcodes.Heartbeat:
+				this.heartbeat();
+				break;
+
+			case GatewayOpcodes.InvalidSession:
+				this.invalidSession(payload.d);
+				break;
+
+			case GatewayOpcodes.Reconnect:
+				new Trace("Web Socket", "Reconnecting to the Discord gateway.").trace();
+				this.settings.events.emit("shardReconnecting", this.shard, 0);
+				this.disconnect(true);
+				this.connect();
+				break;
+
+			case GatewayOpcodes.Hello:
+				this.startHeartbeat(payload.d.heartbeat_interval);
+
+				if (this.resumable()) {
+					this.resume();
+				} else {
+					this.queueIdentify();
+				}
+				break;
+
+			case GatewayOpcodes.HeartbeatAck:
+				this.acknowledged = true;
+				this.latency = Date.now() - this.heartbeatSentAt;
+				new Trace(
+					"Web Socket",
+					"Received heartbeat acknowledgement.",
+					`Latency: ${this.latency}ms.`
+				).trace();
+				break;
+		}
+	}
+
+	/**
+	 * Handles the closure of the connection by the Discord Gateway.
+	 *
+	 * - Emits the `shardDisconnect` event with the close code.
+	 * - Fatal close codes stop any further reconnection and raise a panic, also emitted as an error.
+	 * - Close codes that invalidate the session make the next connection identify again.
+	 * - Any other close code schedules a reconnection that resumes the session.
+	 *
+	 * @param code The close code of the connection.
+	 */
+	private close(code: number): void {
+		this.settings.events.emit("shardDisconnect", this.shard, code);
+
+		if (FATAL_CLOSE_CODES.includes(code)) {
 			this.disconnect();
-			this.connect();
-		});
+			this.fail(
+				new Panic(
+					"Web Socket",
+					`Connection to the Discord gateway was closed with code ${code} (${GatewayCloseCodes[code]}).`,
+					"The connection won't be reestablished."
+				)
+			);
+			return;
+		}
 
-		this.ws.on("error", (error: Error) => {
-			new Warn("Web Socket", error.message).warn();
+		this.disconnect(!UNRESUMABLE_CLOSE_CODES.includes(code));
+		this.reconnect();
+	}
+
+	/**
+	 * Schedules a reconnection attempt following the reconnection policy.
+	 *
+	 * Emits the `shardReconnecting` event with the delay before the attempt. If the maximum number
+	 * of attempts is reached, raises a panic, also emitted as an error, and stops reconnecting.
+	 */
+	private reconnect(): void {
+		const POLICY = { ...DEFAULT_RECONNECT_SETTINGS, ...this.settings.reconnect };
+
+		if (this.attempts >= POLICY.attempts) {
+			this.disconnect();
+			this.fail(
+				new Panic(
+					"Web Socket",
+					`Failed to reconnect to the Discord gateway after ${this.attempts} attempts.`,
+					"The connection won't be reestablished."
+				)
+			);
+			return;
+		}
+
+		const DELAY = Math.round(
+			Math.min(POLICY.maxDelay, POLICY.delay * 2 ** this.attempts) + Math.random() * POLICY.jitter
+		);
+
+		this.attempts++;
+
+		new Warn(
+			"Web Socket",
+			"Connection to the Discord gateway was closed.",
+			`The connection will be attempted to be reestablished in ${DELAY}ms...`,
+			`Attempt ${this.attempts} of ${POLICY.attempts}.`
+		).warn();
+
+		this.settings.events.emit("shardReconnecting", this.shard, DELAY);
+
+		this.reconnectTimeout = setTimeout(
+			() => {
+				this.connect();
+			},
+			DELAY
+		);
+	}
+
+	/**
+	 * Raises a panic for an error the connection can't recover from, and emits it as an error.
+	 *
+	 * @param panic The panic describing the error.
+	 */
+	private fail(panic: Panic): void {
+		panic.panic();
+		this.settings.events.emit("error", panic.toError(), this.shard);
+	}
+
+	/**
+	 * Handles a dispatch payload received from the Discord Gateway.
+	 *
+	 * Stores the session data from the `READY` dispatch, resets the reconnection attempts once
+	 * the session is ready or resumed, emits the `shardReady` and `shardResume` events,
+	 * re-applies the last presence after resuming, aggregates the chunks of guild members
+	 * requests, and emits the event along with its context.
+	 *
+	 * @param payload The dispatch payload received from the Gateway.
+	 * @param timestamp The time in milliseconds the payload was received at.
+	 */
+	private dispatch(payload: GatewayDispatchPayload, timestamp: number): void {
+		if (payload.t === GatewayDispatchEvents.Ready) {
+			this.sessionId = payload.d.session_id;
+			this.resumeURL = payload.d.resume_gateway_url;
+			this.attempts = 0;
+			this.settings.events.emit("shardReady", this.shard);
+		} else if (payload.t === GatewayDispatchEvents.Resumed) {
+			new Trace("Web Socket", "Resumed the session.").trace();
+			this.attempts = 0;
+			this.sendPresence();
+			this.settings.events.emit("shardResume", this.shard);
+		} else if (payload.t === GatewayDispatchEvents.GuildMembersChunk) {
+			this.memberRequests.receive(payload.d);
+		}
+
+		this.settings.events.emit(payload.t, payload.d as never, {
+			shard: this.shard,
+			sequence: payload.s,
+			timestamp
 		});
 	}
 
+	/**
+	 * Handles an invalid session notice from the Discord Gateway.
+	 *
+	 * - Emits the `invalidSession` event.
+	 * - If the session is resumable, reconnects to resume it on a new connection.
+	 * - Otherwise, forgets the session, holds the send queue, and identifies again on the same
+	 * connection after a random delay of 1 to 5 seconds.
+	 *
+	 * @param resumable Whether Discord reported the session as resumable.
+	 */
+	private invalidSession(resumable: boolean): void {
+		this.settings.events.emit("invalidSession", this.shard, resumable);
+
+		if (resumable) {
+			new Warn("Web Socket", "Invalid session.", "Reconnecting to resume it...").warn();
+			this.settings.events.emit("shardReconnecting", this.shard, 0);
+			this.disconnect(true);
+			this.connect();
+			return;
+		}
+
+		new Warn(
+			"Web Socket",
+			"Invalid session.",
+			"The session can't be resumed, identifying again..."
+		).warn();
+
+		this.invalidate();
+		// Queued payloads would be sent on the invalidated session until identifying again.
+		this.sender.pause();
+		this.authenticated = false;
+
+		const CONNECTION = this.ws;
+
+		this.identifyTimeout = setTimeout(
+			() => {
+				this.identifyTimeout = undefined;
+
+				if (this.ws === CONNECTION) {
+					this.queueIdentify();
+				}
+			},
+			1_000 + Math.random() * 4_000
+		);
+	}
+
 	/**
 	 * Disconnects the WebSocket connection and clears resources.
 	 *
-	 * - Stops the heartbeat interval.
+	 * - Stops the heartbeat timers, cancels any scheduled reconnection or identify, and pauses the
+	 * send queue.
 	 * - Removes all event listeners from the WebSocket instance.
-	 * - Closes the WebSocket connection.
+	 * - Closes the WebSocket connection, keeping the session alive if it is meant to be resumed.
+	 *
+	 * @param resumable Whether the session should be kept so it can be resumed later. Defaults to `false`.
 	 */
-	public disconnect(): void {
+	public disconnect(resumable = false): void {
+		if (this.heartbeatTimeout !== undefined) {
+			clearTimeout(this.heartbeatTimeout);
+		}
+
 		if (this.heartbeatInterval !== undefined) {
 			clearInterval(this.heartbeatInterval);
 		}
 
+		if (this.reconnectTimeout !== undefined) {
+			clearTimeout(this.reconnectTimeout);
+		}
+
+		if (this.identifyTimeout !== undefined) {
+			clearTimeout(this.identifyTimeout);
+		}
+
+		if (!resumable) {
+			this.invalidate();
+		}
+
+		// Closing with 1000 or 1001 makes Discord invalidate the session.
+		const CODE = resumable
+			? 4_000
+			: 1_000;
+
+		this.sender.pause();
+		this.authenticated = false;
 		this.ws?.removeAllListeners();
-		this.ws?.close();
+		this.ws?.close(CODE);
 
 		this.ws = undefined;
 
+		this.inflator?.close();
+		this.inflator = undefined;
+
 		new Trace("Web Socket", "Disconnected from the Discord gateway.").trace();
 	}
 
 	/**
 	 * Sends the identify payload to the Discord Gateway.
 	 *
-	 * This payload contains the bot's token, intents, and client properties. It is required
-	 * to authenticate the connection and begin receiving events.
+	 * This payload contains the bot's token, intents, client properties, shard information,
+	 * and initial presence. It is required to authenticate the connection and begin receiving events.
+	 *
+	 * Unless provided in the settings, the shard information is taken from the sharder.
 	 */
 	public identify(): void {
-		this.ws?.send(
-			JSON.stringify({
-				op: 2,
-				d: {
-					token: this.settings.token,
-					intents: this.settings.intents,
-					properties: {
-						$os: this.settings.os,
-						$device: this.settings.device
-					}
-				}
-			})
+		this.send({
+			op: GatewayOpcodes.Identify,
+			d: {
+				token: this.settings.token,
+				intents: this.settings.intents,
+				properties: {
+					os: this.settings.os,
+					browser: this.settings.browser,
+					device: this.settings.device
+				},
+				shard: this.settings.shard ?? [this.shard.id, this.shard.client.shards.total],
+				presence: this.settings.presence,
+				large_threshold: this.settings.largeThreshold,
+				compress: false
+			}
+		}, true);
+
+		this.authenticated = true;
+		void this.sender.resume();
+	}
+
+	/**
+	 * Updates the presence of this connection.
+	 *
+	 * The presence is validated and stored, so it is sent again when identifying or resuming
+	 * after a reconnection. Until the connection identifies or resumes, it is only stored, so
+	 * only the latest presence is sent.
+	 *
+	 * @param presence The presence to set.
+	 * @throws If any value of the presence is invalid.
+	 */
+	public setPresence(presence: PresenceSettings): void {
+		this.settings.presence = resolvePresence(presence);
+
+		if (this.authenticated) {
+			this.sendPresence();
+		}
+	}
+
+	/** Sends the stored presence to the Discord Gateway, if there is one. */
+	private sendPresence(): void {
+		if (this.settings.presence === undefined) {
+			return;
+		}
+
+		this.send({
+			op: GatewayOpcodes.PresenceUpdate,
+			d: this.settings.presence
+		});
+	}
+
+	/**
+	 * Requests the members of a guild.
+	 *
+	 * The members arrive in one or more `GUILD_MEMBERS_CHUNK` dispatches, which are aggregated
+	 * using a generated nonce. Requesting every member requires the `GuildMembers` intent.
+	 *
+	 * @param request The options of the request.
+	 * @returns A promise resolving with the aggregated chunks, or rejecting if they don't arrive in time.
+	 */
+	public requestGuildMembers(request: GuildMembersRequest): Promise<GuildMembersResult> {
+		const [DATA, RESULT] = this.memberRequests.track(request);
+
+		this.send({
+			op: GatewayOpcodes.RequestGuildMembers,
+			d: DATA
+		});
+
+		return RESULT;
+	}
+
+	/**
+	 * Requests the identify payload to be sent, through the `queue` setting if provided.
+	 *
+	 * The payload is skipped if the connection changed while it was waiting in the queue.
+	 */
+	public queueIdentify(): void {
+		if (this.settings.queue === undefined) {
+			this.identify();
+			return;
+		}
+
+		const CONNECTION = this.ws;
+
+		this.settings.queue(() => {
+			if (this.ws !== CONNECTION || !this.connected()) {
+				return false;
+			}
+
+			this.identify();
+			return true;
+		});
+	}
+
+	/**
+	 * Sends the resume payload to the Discord Gateway.
+	 *
+	 * This payload replays the events missed since the last received sequence number
+	 * instead of starting a new session. Falls back to identifying if there is no session.
+	 */
+	public resume(): void {
+		if (this.sessionId === undefined) {
+			this.queueIdentify();
+			return;
+		}
+
+		this.send({
+			op: GatewayOpcodes.Resume,
+			d: {
+				token: this.settings.token,
+				session_id: this.sessionId,
+				seq: this.sequence ?? 0
+			}
+		}, true);
+
+		this.authenticated = true;
+		void this.sender.resume();
+	}
+
+	/**
+	 * Starts sending periodic heartbeats to the Discord Gateway.
+	 *
+	 * The first heartbeat is delayed by a random fraction of the interval, as Discord
+	 * recommends, so that reconnecting clients don't heartbeat all at once.
+	 *
+	 * @param interval The heartbeat interval in milliseconds, received in the "Hello" event.
+	 */
+	private startHeartbeat(interval: number): void {
+		this.acknowledged = true;
+		this.heartbeatTimeout = setTimeout(
+			() => {
+				this.pulse();
+				this.heartbeatInterval = setInterval(
+					() => {
+						this.pulse();
+					},
+					interval
+				);
+			},
+			interval * Math.random()
 		);
 	}
 
+	/**
+	 * Sends a scheduled heartbeat, checking first that the previous one was acknowledged.
+	 *
+	 * If it wasn't, the connection is considered zombied: it is closed and a reconnection
+	 * is scheduled to resume the session.
+	 */
+	private pulse(): void {
+		if (!this.acknowledged) {
+			new Warn(
+				"Web Socket",
+				"The last heartbeat wasn't acknowledged by the Discord gateway.",
+				"The connection is considered zombied."
+			).warn();
+
+			this.disconnect(true);
+			this.reconnect();
+			return;
+		}
+
+		this.heartbeat();
+	}
+
 	/**
 	 * Sends a heartbeat payload to the Discord Gateway.
 	 *
@@ -180,14 +792,102 @@ export class WebSocket {
 	 * regular heartbeats to prevent the connection from being closed.
 	 */
 	private heartbeat(): void {
+		this.acknowledged = false;
+		this.heartbeatSentAt = Date.now();
+
+		this.send({
+			op: GatewayOpcodes.Heartbeat,
+			d: this.sequence
+		}, true);
+	}
+
+	/**
+	 * Sends a payload to the Discord Gateway, honouring the Gateway send rate limit.
+	 *
+	 * Payloads are queued and sent once the connection is authenticated. Priority payloads,
+	 * such as heartbeats, skip the queue and are sent right away using the reserved sends.
+	 *
+	 * @param payload The payload to send.
+	 * @param priority Whether the payload should skip the queue. Defaults to `false`.
+	 */
+	public send(payload: GatewaySendPayload, priority = false): void {
+		if (priority) {
+			this.write(payload);
+			return;
+		}
+
+		void this.sender.add((resolve) => {
+			const NOW = Date.now();
+
+			// A new window starts with the first send after the previous one is over.
+			if (NOW >= this.sender.reset) {
+				this.sender.remaining = this.sender.limit - 1;
+				this.sender.reset = NOW + GATEWAY_SEND_WINDOW;
+			}
+
+			this.write(payload);
+			resolve(undefined);
+		});
+	}
+
+	/**
+	 * Writes a payload to the underlying WebSocket connection, if it is open.
+	 *
+	 * @param payload The payload to write.
+	 */
+	private write(payload: GatewaySendPayload): void {
+		if (!this.connected()) {
+			new Warn(
+				"Web Socket",
+				`Dropped a payload with opcode ${payload.op}.`,
+				"The connection to the Discord gateway isn't open."
+			).warn();
+			return;
+		}
+
 		this.ws?.send(
-			JSON.stringify({
-				op: 1,
-				d: Date.now()
-			})
+			this.settings.encoding === "etf"
+				? pack(payload)
+				: JSON.stringify(payload)
 		);
 	}
 
+	/**
+	 * Checks if there is a session that can be resumed.
+	 *
+	 * @returns `true` if a session Id and resume address were received, otherwise `false`.
+	 */
+	public resumable(): boolean {
+		return this.sessionId !== undefined && this.resumeURL !== undefined;
+	}
+
+	/**
+	 * Forgets the current session, so the next connection identifies instead of resuming, and
+	 * cancels any identify scheduled after an invalid session.
+	 */
+	private invalidate(): void {
+		clearTimeout(this.identifyTimeout);
+		this.identifyTimeout = undefined;
+		this.sessionId = undefined;
+		this.resumeURL = undefined;
+		this.sequence = null;
+	}
+
+	/**
+	 * Builds the address to connect to, including the Gateway query parameters.
+	 *
+	 * @param base The base address of the Gateway.
+	 * @returns The address with the Gateway version, encoding, and compression.
+	 */
+	private address(base: string): string {
+		const ENCODING = this.settings.encoding ?? "json";
+		const COMPRESS = this.settings.compress === undefined
+			? ""
+			: `&compress=${this.settings.compress}`;
+
+		return `${base}/?v=${GatewayVersion}&encoding=${ENCODING}${COMPRESS}`;
+	}
+
 	/**
 	 * Checks if the WebSocket connection is disconnected.
 	 *
@@ -0,0 +1,277 @@
+import { Dictionary } from "./dictionary";
+import { Panic } from "./log";
+
+/** A function listening to an event, receiving the arguments it was emitted with. */
+export type Listener<Arguments extends unknown[]> = (...args: Arguments) => unknown;
+
+/** Options of a wait for an event. */
+export interface WaitForOptions<Arguments extends unknown[]> {
+	/** Checks the arguments of each emission, only resolving the wait on those it accepts. */
+	filter?: (...args: Arguments) => boolean;
+
+	/** The time in milliseconds after which the wait is rejected. Waits forever by default. */
+	timeout?: number;
+
+	/** A signal that rejects the wait when aborted. */
+	signal?: AbortSignal;
+}
+
+/**
+ * The value a wait for an event resolves with.
+ *
+ * Events emitted with a single argument resolve with it, and any other event with the tuple of
+ * its arguments.
+ */
+export type WaitForResult<Arguments extends unknown[]> = Arguments extends [infer Argument]
+	? Argument
+	: Arguments;
+
+/** A registered listener, along with whether it should only be called once. */
+interface Registration {
+	listener: Listener<never[]>;
+	once: boolean;
+}
+
+/**
+ * A typed event emitter.
+ *
+ * Events and their arguments are described by the `Events` map, so listeners are typed based
+ * on the event they are registered for. Errors thrown by a listener are logged as a panic and
+ * don't prevent the remaining listeners from being called.
+ *
+ * @template Events A map of event names to the tuple of arguments they are emitted with.
+ */
+export class Emitter<Events extends { [Event in keyof Events]: unknown[] }> {
+	/** Registered listeners, grouped by event. */
+	private readonly registrations: Dictionary<keyof Events, Registration[]>;
+
+	/** Creates a new `Emitter` instance. */
+	public constructor() {
+		this.registrations = new Dictionary();
+	}
+
+	/**
+	 * Registers a listener for an event.
+	 *
+	 * @param event The event to listen to.
+	 * @param listener The function called every time the event is emitted.
+	 * @returns The current emitter instance.
+	 */
+	public on<Event extends keyof Events>(event: Event, listener: Listener<Events[Event]>): this {
+		return this.register(event, listener, false);
+	}
+
+	/**
+	 * Registers a listener that is removed after the first time the event is emitted.
+	 *
+	 * @param event The event to listen to.
+	 * @param listener The function called the next time the event is emitted.
+	 * @returns The current emitter instance.
+	 */
+	public once<Event extends keyof Events>(event: Event, listener: Listener<Events[Event]>): this {
+		return this.register(event, listener, true);
+	}
+
+	/**
+	 * Removes a listener from an event.
+	 *
+	 * @param event The event the listener was registered for.
+	 * @param listener The listener to remove.
+	 * @returns The current emitter instance.
+	 */
+	public off<Event extends keyof Events>(event: Event, listener: Listener<Events[Event]>): this {
+		return this.unregister(event, listener);
+	}
+
+	/**
+	 * Calls every listener registered for an event with the given arguments.
+	 *
+	 * @param event The event to emit.
+	 * @param args The arguments passed to the listeners.
+	 * @returns `true` if the event had listeners, otherwise `false`.
+	 */
+	public emit<Event extends keyof Events>(event: Event, ...args: Events[Event]): boolean {
+		const REGISTRATIONS = this.registrations.get(event);
+
+		if (!REGISTRATIONS) {
+			return false;
+		}
+
+		for (const REGISTRATION of REGISTRATIONS) {
+			if (REGISTRATION.once) {
+				this.unregister(event, REGISTRATION.listener);
+			}
+
+			this.call(event, REGISTRATION.listener, args);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Waits for the next emission of an event that passes the filter.
+	 *
+	 * The wait registers its own listener, so it doesn't affect the existing ones, and removes
+	 * it once the wait is resolved or rejected.
+	 *
+	 * @param event The event to wait for.
+	 * @param options The filter, timeout, and abort signal of the wait.
+	 * @returns A promise resolving to the only argument the event was emitted with, or to the
+	 * tuple of its arguments if it has several.
+	 * @throws If the wait times out, is aborted, or the filter throws.
+	 */
+	public waitFor<Event extends keyof Events>(
+		event: Event,
+		options: WaitForOptions<Events[Event]> = {}
+	): Promise<WaitForResult<Events[Event]>> {
+		return new Promise((resolve, reject) => {
+			// Biome-ignore lint/correctness/noUndeclaredVariables: Timer is a Bun type.
+			let timeout: Timer | undefined;
+
+			const CLEANUP = (): void => {
+				clearTimeout(timeout);
+				options.signal?.removeEventListener("abort", ABORT);
+				this.off(event, LISTENER);
+			};
+
+			const FAIL = (error: Error): void => {
+				CLEANUP();
+				reject(error);
+			};
+
+			const ABORT = (): void => {
+				FAIL(
+					new Panic(
+						"Emitter",
+						`Stopped waiting for the "${String(event)}" event.`,
+						"The wait was aborted."
+					).toError()
+				);
+			};
+
+			const LISTENER = (...args: Events[Event]): void => {
+				try {
+					if (options.filter?.(...args) ?? true) {
+						CLEANUP();
+						resolve(
+							(args.length === 1
+								? args[0]
+								: args) as WaitForResult<Events[Event]>
+						);
+					}
+				} catch (error) {
+					FAIL(error as Error);
+				}
+			};
+
+			if (options.signal?.aborted) {
+				ABORT();
+				return;
+			}
+
+			this.on(event, LISTENER);
+			options.signal?.addEventListener("abort", ABORT, { once: true });
+
+			if (options.timeout !== undefined) {
+				timeout = setTimeout(
+					() => {
+						FAIL(
+							new Panic(
+								"Emitter",
+								`Timed out waiting for the "${String(event)}" event after ${options.timeout}ms.`
+							).toError()
+						);
+					},
+					options.timeout
+				);
+			}
+		});
+	}
+
+	/**
+	 * Counts the listeners registered for an event.
+	 *
+	 * @param event The event to count the listeners of.
+	 * @returns The number of listeners registered for the event.
+	 */
+	public listeners(event: keyof Events): number {
+		return this.registrations.get(event)?.length ?? 0;
+	}
+
+	/**
+	 * Removes every listener of an event, or of all events if none is given.
+	 *
+	 * @param event The event to remove the listeners of.
+	 * @returns The current emitter instance.
+	 */
+	public clear(event?: keyof Events): this {
+		if (event === undefined) {
+			this.registrations.clear();
+		} else {
+			this.registrations.delete(event);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Stores a listener registration for an event.
+	 *
+	 * @param event The event to listen to.
+	 * @param listener The listener to register.
+	 * @param once Whether the listener should be removed after being called.
+	 * @returns The current emitter instance.
+	 */
+	private register(event: keyof Events, listener: Listener<never[]>, once: boolean): this {
+		this.registrations.set(event, [...(this.registrations.get(event) ?? []), { listener, once }]);
+		return this;
+	}
+
+	/**
+	 * Removes a listener registration from an event.
+	 *
+	 * @param event The event the listener was registered for.
+	 * @param listener The listener to remove.
+	 * @returns The current emitter instance.
+	 */
+	private unregister(event: keyof Events, listener: Listener<never[]>): this {
+		const REGISTRATIONS = (this.registrations.get(event) ?? []).filter(
+			(registration) => registration.listener !== listener
+		);
+
+		if (REGISTRATIONS.length > 0) {
+			this.registrations.set(event, REGISTRATIONS);
+		} else {
+			this.registrations.delete(event);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Calls a listener, logging as a panic any error it throws or rejects with.
+	 *
+	 * @param event The event being emitted.
+	 * @param listener The listener to call.
+	 * @param args The arguments passed to the listener.
+	 */
+	private call(event: keyof Events, listener: Listener<never[]>, args: unknown[]): void {
+		const PANIC = (error: unknown): void => {
+			new Panic(
+				"Emitter",
+				`A listener of the "${String(event)}" event failed.`,
+				(error as Error).message
+			).panic();
+		};
+
+		try {
+			const RESULT = (listener as Listener<unknown[]>)(...args);
+
+			if (RESULT instanceof Promise) {
+				RESULT.catch(PANIC);
+			}
+		} catch (error) {
+			PANIC(error);
+		}
+	}
+}
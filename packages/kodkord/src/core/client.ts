@@ -1,52 +1,104 @@
-import type { GatewayDispatchPayload, GatewayDispatchEvents } from "discord-api-types/v10";
+import type { PresenceSettings } from "@api/presence";
 
+import {
+	type GatewayDispatchPayload,
+	type GatewayReceivePayload,
+	GatewayDispatchEvents
+} from "discord-api-types/v10";
+import { type WaitForOptions, type WaitForResult, type Listener, Emitter } from "@common/emitter";
 import { type RestSettings, Rest } from "@api/rest";
-import { Dictionary } from "@common/dictionary";
 
+import type { Shard } from "./shard";
 import { Sharder } from "./sharder";
 
+/** Where and when a dispatch event was received, passed to its listeners along with its data. */
+export interface DispatchContext {
+	/** The shard that received the event, which can be used to reply through its connection. */
+	shard: Shard;
+
+	/** The sequence number of the event. */
+	sequence: number;
+
+	/** The time in milliseconds the event was received at. */
+	timestamp: number;
+}
+
 /**
- * Represents a mapping of event types to their corresponding callback functions.
+ * Maps every Gateway dispatch event to the arguments its listeners receive.
  *
- * This interface extends `Dictionary`, allowing each event to have a handler function
- * that processes the payload for that event type. The event type is inferred based on
- * the generic `Event`, which defaults to `GatewayDispatchEvents`.
- *
- * @template Event The event type to which the handler applies.
+ * The data of each event is inferred from `GatewayDispatchPayload` based on its name, and is
+ * followed by the context the event was received in.
  */
-// @ts-expect-error
-export interface Events<Event extends GatewayDispatchEvents = GatewayDispatchEvents>
-	extends Dictionary<Event, (data: GatewayDispatchPayload) => unknown> {
-	/**
-	 * Sets a callback function for a specific event.
-	 *
-	 * @param event The event to bind the callback to.
-	 * @param callback The function to handle the event data.
-	 * @returns The instance of the `Events` interface, allowing method chaining.
-	 */
-	set<E extends Event>(
-		event: E,
-		callback: (data: Extract<GatewayDispatchPayload, { t: E }>["d"]) => unknown,
-	): this;
+export type DispatchEvents = {
+	[Event in GatewayDispatchEvents]: [
+		data: Extract<GatewayDispatchPayload, { t: Event }>["d"],
+		context: DispatchContext
+	];
+};
 
-	/**
-	 * Gets the callback function associated with a specific event.
-	 *
-	 * @param event The event for which to retrieve the callback function.
-	 * @returns The callback function for the event, or `undefined` if no handler is set.
-	 */
-	get<E extends Event>(
-		event: E,
-	): ((data: Extract<GatewayDispatchPayload, { t: E }>["d"]) => unknown) | undefined;
+/** Events reporting the state of the shards and their connections. */
+export interface LifecycleEvents {
+	/** Emitted once every shard is ready after connecting. */
+	ready: [];
+
+	/** Emitted when a shard receives the `READY` dispatch of a new session. */
+	shardReady: [shard: Shard];
+
+	/** Emitted when the Gateway closes the connection of a shard, along with the close code. */
+	shardDisconnect: [shard: Shard, code: number];
+
+	/** Emitted when a shard is about to reconnect, along with the delay in milliseconds. */
+	shardReconnecting: [shard: Shard, delay: number];
+
+	/** Emitted when a shard resumes its session. */
+	shardResume: [shard: Shard];
+
+	/** Emitted when the Gateway invalidates the session of a shard, and whether it is resumable. */
+	invalidSession: [shard: Shard, resumable: boolean];
+
+	/** Emitted when the connection of a shard fails, or can't be reestablished anymore. */
+	error: [error: Error, shard: Shard];
 }
 
+/**
+ * Maps every event emitted by the client to the arguments its listeners receive.
+ *
+ * Besides the dispatch and lifecycle events, the `raw` event is emitted for every payload
+ * received from the Gateway, opcodes other than dispatch included.
+ */
+export type ClientEvents = DispatchEvents & LifecycleEvents & {
+	/** Emitted for every payload received from the Gateway. */
+	raw: [payload: GatewayReceivePayload];
+};
+
+/**
+ * The value the wait for a client event resolves with.
+ *
+ * Dispatch events resolve with their data, and any other event as described by `WaitForResult`.
+ */
+export type ClientWaitForResult<Event extends keyof ClientEvents> =
+	Event extends keyof DispatchEvents
+		? DispatchEvents[Event][0]
+		: WaitForResult<ClientEvents[Event]>;
+
+/** The names of the dispatch events, telling them apart from the other client events. */
+const DISPATCH_EVENTS: readonly string[] = Object.values(GatewayDispatchEvents);
+
+/**
+ * The event emitter of the client.
+ *
+ * Every shard emits the payloads it receives through it, unless it was given its own.
+ */
+export class Events extends Emitter<ClientEvents> {}
+
 /**
  * Represents the settings required to initialize a client.
  *
  * This type extends `RestSettings` and adds an additional property `intents` to manage
- * the events the client will listen to.
+ * the events the client will listen to, and an optional property `shards` to create the
+ * shards automatically from `GET /gateway/bot` when connecting.
  */
-export type ClientSettings = { intents: number } & RestSettings;
+export type ClientSettings = { shards?: "auto" | number; intents: number } & RestSettings;
 
 /**
  * Represents the main bot client.
@@ -62,7 +114,7 @@ export class Client {
 	/** The sharding manager responsible for handling multiple shards. */
 	public readonly shards: Sharder;
 
-	/** The event handler for managing events. */
+	/** The event emitter the Gateway events are emitted through. */
 	public readonly events: Events;
 
 	/** The `Rest` instance for interacting with the Discord API. */
@@ -75,13 +127,104 @@ export class Client {
 	 */
 	public constructor(settings: ClientSettings) {
 		this.settings = settings;
+		this.events = new Events();
 		this.shards = new Sharder(this);
-		this.events = new Dictionary() as Events;
 		this.rest = new Rest(settings);
 	}
 
-	/** Connects the client by establishing a connection with the Discord Gateway. */
-	public connect(): void {
+	/**
+	 * Connects the client by establishing a connection with the Discord Gateway.
+	 *
+	 * If the `shards` setting is provided, the shards are prepared from `GET /gateway/bot` first.
+	 *
+	 * @throws If the remaining session start limit is not enough to identify every shard.
+	 */
+	public async connect(): Promise<void> {
+		if (this.settings.shards !== undefined) {
+			await this.shards.prepare(this.settings.shards);
+		}
+
 		this.shards.connect();
 	}
+
+	/**
+	 * Updates the presence of the client on every shard.
+	 *
+	 * @param presence The presence to set, where missing values fall back to an online presence.
+	 * @throws If any value of the presence is invalid.
+	 */
+	public setPresence(presence: PresenceSettings): void {
+		this.shards.setPresence(presence);
+	}
+
+	/**
+	 * Registers a listener for an event.
+	 *
+	 * @param event The event to listen to.
+	 * @param listener The function called every time the event is emitted.
+	 * @returns The current client instance.
+	 */
+	public on<Event extends keyof ClientEvents>(
+		event: Event,
+		listener: Listener<ClientEvents[Event]>
+	): this {
+		this.events.on(event, listener);
+		return this;
+	}
+
+	/**
+	 * Registers a listener that is removed after the first time the event is emitted.
+	 *
+	 * @param event The event to listen to.
+	 * @param listener The function called the next time the event is emitted.
+	 * @returns The current client instance.
+	 */
+	public once<Event extends keyof ClientEvents>(
+		event: Event,
+		listener: Listener<ClientEvents[Event]>
+	): this {
+		this.events.once(event, listener);
+		return this;
+	}
+
+	/**
+	 * Removes a listener from an event.
+	 *
+	 * @param event The event the listener was registered for.
+	 * @param listener The listener to remove.
+	 * @returns The current client instance.
+	 */
+	public off<Event extends keyof ClientEvents>(
+		event: Event,
+		listener: Listener<ClientEvents[Event]>
+	): this {
+		this.events.off(event, listener);
+		return this;
+	}
+
+	/**
+	 * Waits for the next emission of an event that passes the filter.
+	 *
+	 * Existing listeners aren't affected, and the listener of the wait is removed once it is
+	 * resolved or rejected.
+	 *
+	 * @param event The event to wait for.
+	 * @param options The filter, timeout, and abort signal of the wait.
+	 * @returns A promise resolving to the data of dispatch events, and otherwise to the only
+	 * argument the event was emitted with, or to the tuple of its arguments if it has several.
+	 * @throws If the wait times out, is aborted, or the filter throws.
+	 */
+	public async waitFor<Event extends keyof ClientEvents>(
+		event: Event,
+		options?: WaitForOptions<ClientEvents[Event]>
+	): Promise<ClientWaitForResult<Event>> {
+		const RESULT = await this.events.waitFor(event, options);
+
+		// The context of dispatch events is left out, so they resolve with their data.
+		return (
+			DISPATCH_EVENTS.includes(event)
+				? (RESULT as unknown[])[0]
+				: RESULT
+		) as ClientWaitForResult<Event>;
+	}
 }
@@ -1,3 +1,6 @@
+import type { GuildMembersRequest, GuildMembersResult } from "@api/members";
+import type { PresenceSettings } from "@api/presence";
+
 import { type WebSocketSettings, WebSocket } from "@api/ws";
 import { Panic, Trace, Warn } from "@common/log";
 
@@ -23,6 +26,9 @@ export class Shard {
 	/** The Id of this shard. */
 	public readonly id: number;
 
+	/** The Gateway address set for this shard, overriding the one of the sharder. */
+	private readonly url?: string;
+
 	/**
 	 * Calculates the shard Id for a given guild based on Discord's sharding formula.
 	 *
@@ -44,13 +50,25 @@ export class Shard {
 	public constructor(client: Client, id: number, settings?: ShardSettings) {
 		this.websocket = new WebSocket({
 			token: client.settings.token,
+			url: settings?.url,
 			intents: client.settings.intents,
 			device: settings?.device ?? "kodkord",
+			browser: settings?.browser ?? "kodkord",
 			os: settings?.os ?? "linux",
-			events: settings?.events ?? client.events
-		});
+			shard: settings?.shard,
+			presence: settings?.presence,
+			largeThreshold: settings?.largeThreshold,
+			events: settings?.events ?? client.events,
+			compress: settings?.compress,
+			encoding: settings?.encoding,
+			reconnect: settings?.reconnect,
+			queue: settings?.queue ?? ((identify) => {
+				client.shards.queue(this, identify);
+			})
+		}, this);
 		this.client = client;
 		this.id = id;
+		this.url = settings?.url;
 	}
 
 	/**
@@ -58,6 +76,9 @@ export class Shard {
 	 *
 	 * - If the shard is already connected, logs a warning and does nothing.
 	 * - Otherwise, attempts to establish a connection and logs the status.
+	 *
+	 * Unless set for this shard, the address is the one of the sharder at the time of connecting,
+	 * which `GET /gateway/bot` may have changed since the shard was created.
 	 */
 	public connect(): void {
 		if (this.websocket.connected()) {
@@ -65,6 +86,8 @@ export class Shard {
 			return;
 		}
 
+		this.websocket.settings.url = this.url ?? this.client.shards.gateway;
+
 		try {
 			this.websocket.connect();
 			new Trace(`Shard #${this.id}`, "Connected to the gateway.").warn();
@@ -104,6 +127,48 @@ export class Shard {
 		}
 	}
 
+	/**
+	 * Updates the presence of this shard.
+	 *
+	 * The presence is re-applied automatically after reconnecting.
+	 *
+	 * @param presence The presence to set, where missing values fall back to an online presence.
+	 * @throws If any value of the presence is invalid.
+	 */
+	public setPresence(presence: PresenceSettings): void {
+		this.websocket.setPresence(presence);
+	}
+
+	/**
+	 * Requests the members of a guild through the Gateway.
+	 *
+	 * The request is routed to the shard responsible for the guild, which may not be this one.
+	 *
+	 * @param request The options of the request.
+	 * @returns A promise resolving with the aggregated chunks, or rejecting if they don't arrive in time.
+	 */
+	public async requestGuildMembers(request: GuildMembersRequest): Promise<GuildMembersResult> {
+		const TOTAL = this.websocket.settings.shard?.[1] ?? this.client.shards.total;
+		const ID = Shard.calculateId(request.guildId, TOTAL);
+
+		if (ID === this.id) {
+			return this.websocket.requestGuildMembers(request);
+		}
+
+		const SHARD = this.client.shards.get(ID);
+
+		if (SHARD === undefined) {
+			const PANIC = new Panic(
+				`Shard #${this.id}`,
+				`The guild with id ${request.guildId} belongs to shard #${ID}, which doesn't exist.`
+			);
+			PANIC.panic();
+			throw PANIC.toError();
+		}
+
+		return SHARD.websocket.requestGuildMembers(request);
+	}
+
 	/**
 	 * Returns the REST client associated with this shard.
 	 *
@@ -114,4 +179,15 @@ export class Shard {
 	public get rest(): Client["rest"] {
 		return this.client.rest;
 	}
+
+	/**
+	 * Returns the latency of this shard's Gateway connection.
+	 *
+	 * It is measured from the moment a heartbeat is sent until Discord acknowledges it.
+	 *
+	 * @returns The latency in milliseconds, or `-1` if no heartbeat has been acknowledged yet.
+	 */
+	public get ping(): number {
+		return this.websocket.latency;
+	}
 }
@@ -1,10 +1,30 @@
+import {
+	type APIGatewaySessionStartLimit,
+	type RESTGetAPIGatewayBotResult,
+	Routes
+} from "discord-api-types/v10";
+import { type PresenceSettings, resolvePresence } from "@api/presence";
 import { Dictionary } from "@common/dictionary";
-import { Panic } from "@common/log";
+import { WEB_SOCKET_ADDRESS } from "@api/ws";
+import { Emitter } from "@common/emitter";
+import { Panic, Trace } from "@common/log";
 
 import type { Client } from "./client";
 
 import { type ShardSettings, Shard } from "./shard";
 
+/** The time in milliseconds Discord requires between identifies sharing a rate limit key. */
+export const IDENTIFY_INTERVAL = 5_000;
+
+/** Events emitted by the `Sharder` to report the startup progress of its shards. */
+export interface SharderEvents {
+	/** Emitted when a shard is queued to identify, along with the number of pending identifies. */
+	queue: [shard: Shard, pending: number];
+
+	/** Emitted when a shard identifies, along with the number of identified and total shards. */
+	identify: [shard: Shard, identified: number, total: number];
+}
+
 /**
  * The Sharder class manages multiple shards for connecting to Discord's Gateway.
  *
@@ -16,6 +36,30 @@ export class Sharder extends Dictionary<number, Shard> {
 	/** The client instance that owns this sharder. */
 	public readonly client: Client;
 
+	/** The address of the Discord Gateway that new shards connect to. */
+	public gateway: string;
+
+	/** The session start limit received from Discord, if it was fetched. */
+	public sessionStartLimit?: APIGatewaySessionStartLimit;
+
+	/** The number of shards allowed to identify at the same time, per Discord's `max_concurrency`. */
+	public concurrency: number;
+
+	/** Emitter reporting the startup progress of the shards. */
+	public readonly status: Emitter<SharderEvents>;
+
+	/** The tail of the identify queue of each rate limit key. */
+	private readonly identifyQueues: Dictionary<number, Promise<void>>;
+
+	/** The Ids of the shards that identified since the shards were last connected. */
+	private readonly identified: Set<number>;
+
+	/** The number of identifies waiting in the queues. */
+	private pending: number;
+
+	/** The Ids of the shards that became ready since the shards were last connected. */
+	private readonly readyShards: Set<number>;
+
 	/**
 	 * Creates a new Sharder instance.
 	 *
@@ -24,6 +68,96 @@ export class Sharder extends Dictionary<number, Shard> {
 	public constructor(client: Client) {
 		super(undefined, undefined, "Sharder");
 		this.client = client;
+		this.gateway = WEB_SOCKET_ADDRESS;
+		this.concurrency = 1;
+		this.status = new Emitter();
+		this.identifyQueues = new Dictionary();
+		this.identified = new Set();
+		this.pending = 0;
+		this.readyShards = new Set();
+
+		client.events.on("shardReady", (shard) => {
+			this.markReady(shard);
+		});
+	}
+
+	/**
+	 * Prepares the shards using the information provided by `GET /gateway/bot`.
+	 *
+	 * - Uses the Gateway address returned by Discord for new shards.
+	 * - Creates as many shards as Discord recommends, or the given amount.
+	 * - Refuses to continue if there aren't enough session starts left to identify every shard.
+	 *
+	 * @param shards The number of shards to create, or `"auto"` to use Discord's recommendation.
+	 * @throws If the remaining session start limit is not enough to identify every shard.
+	 */
+	public async prepare(shards: "auto" | number): Promise<void> {
+		const GATEWAY = await this.client.rest.get<RESTGetAPIGatewayBotResult>(Routes.gatewayBot());
+		const LIMIT = GATEWAY.session_start_limit;
+		const TOTAL = shards === "auto"
+			? GATEWAY.shards
+			: shards;
+
+		if (LIMIT.remaining < TOTAL) {
+			const PANIC = new Panic(
+				"Sharder",
+				`Cannot start ${TOTAL} shards with ${LIMIT.remaining} of ${LIMIT.total} session starts left.`,
+				`The session start limit resets in ${LIMIT.reset_after}ms.`
+			);
+			PANIC.panic();
+			throw PANIC.toError();
+		}
+
+		this.gateway = GATEWAY.url;
+		this.sessionStartLimit = LIMIT;
+		this.concurrency = LIMIT.max_concurrency;
+		this.reashard(TOTAL);
+	}
+
+	/**
+	 * Queues a shard to identify, honouring Discord's identify rate limit.
+	 *
+	 * Shards are grouped by their rate limit key (`id % concurrency`). Only one shard per key
+	 * identifies every `IDENTIFY_INTERVAL` milliseconds, while the rest wait in order. A shard
+	 * failing to identify is logged as a panic and skipped.
+	 *
+	 * @param shard The shard that wants to identify.
+	 * @param identify Sends the identify payload, returning whether it was actually sent.
+	 */
+	public queue(shard: Shard, identify: () => boolean): void {
+		const KEY = shard.id % this.concurrency;
+		const TAIL = this.identifyQueues.get(KEY) ?? Promise.resolve();
+
+		this.pending++;
+		this.status.emit("queue", shard, this.pending);
+
+		this.identifyQueues.set(
+			KEY,
+			TAIL.then(async () => {
+				this.pending--;
+
+				// A failed identify must not stall the shards queued behind it with the same key.
+				try {
+					if (!identify()) {
+						return;
+					}
+				} catch (error) {
+					new Panic(
+						"Sharder",
+						`Shard #${shard.id} failed to identify.`,
+						(error as Error).message
+					).panic();
+					return;
+				}
+
+				this.identified.add(shard.id);
+				this.status.emit("identify", shard, this.identified.size, this.size);
+
+				await new Promise((resolve) => {
+					setTimeout(resolve, IDENTIFY_INTERVAL);
+				});
+			})
+		);
 	}
 
 	/**
@@ -74,7 +208,8 @@ export class Sharder extends Dictionary<number, Shard> {
 	 * Forces a specific shard to identify and reconnect to the Gateway.
 	 *
 	 * - If the shard doesn't exist, it creates the shard first.
-	 * - If the shard is disconnected, it connects and identifies the shard.
+	 * - If the shard is connected, it identifies again through the identify queue.
+	 * - Otherwise, it connects the shard, which identifies through the queue once greeted.
 	 *
 	 * @param id The Id of the shard to force identification for.
 	 */
@@ -83,19 +218,24 @@ export class Sharder extends Dictionary<number, Shard> {
 			? (this.get(id) as Shard)
 			: this.create(id);
 
-		if (SHARD.websocket.disconnected()) {
-			SHARD.connect();
+		if (SHARD.websocket.connected()) {
+			SHARD.websocket.queueIdentify();
+			return;
 		}
 
-		SHARD.websocket.identify();
+		SHARD.connect();
 	}
 
 	/**
 	 * Connects all shards to Discord's Gateway.
 	 *
-	 * Iterates over all stored shards and invokes their `connect` method.
+	 * Iterates over all stored shards and invokes their `connect` method. Their identifies are
+	 * queued to honour Discord's identify rate limit.
 	 */
 	public connect(): void {
+		this.identified.clear();
+		this.readyShards.clear();
+
 		for (const SHARD of this.values()) {
 			SHARD.connect();
 		}
@@ -124,4 +264,70 @@ export class Sharder extends Dictionary<number, Shard> {
 			SHARD.disconnect();
 		}
 	}
+
+	/**
+	 * Updates the presence of all shards.
+	 *
+	 * The presence is validated once and then sent through every shard.
+	 *
+	 * @param presence The presence to set, where missing values fall back to an online presence.
+	 * @throws If any value of the presence is invalid.
+	 */
+	public setPresence(presence: PresenceSettings): void {
+		const RESOLVED = resolvePresence(presence);
+
+		for (const SHARD of this.values()) {
+			SHARD.setPresence(RESOLVED);
+		}
+	}
+
+	/**
+	 * Returns the total number of shards, used in the identify payload of each shard.
+	 *
+	 * It is inferred from the highest shard Id, as shards are expected to range from `0` to `total - 1`.
+	 *
+	 * @returns The total number of shards, at least `1`.
+	 */
+	public get total(): number {
+		return Math.max(0, ...this.keys()) + 1;
+	}
+
+	/**
+	 * Returns the average latency of all shards' Gateway connections.
+	 *
+	 * Shards that haven't received a heartbeat acknowledgement yet are not taken into account.
+	 *
+	 * @returns The average latency in milliseconds, or `-1` if no shard has measured it yet.
+	 */
+	public get ping(): number {
+		const MEASURED = this.filter((shard) => shard.ping >= 0);
+
+		if (MEASURED.size === 0) {
+			return -1;
+		}
+
+		return Math.round(MEASURED.reduce((total, shard) => total + shard.ping, 0) / MEASURED.size);
+	}
+
+	/**
+	 * Keeps track of a shard that became ready, and emits the `ready` event through the client
+	 * once every shard is ready.
+	 *
+	 * The `ready` event is only emitted once per connection of the shards, so shards becoming
+	 * ready again after a new session don't emit it again.
+	 *
+	 * @param shard The shard that became ready.
+	 */
+	private markReady(shard: Shard): void {
+		if (this.get(shard.id) !== shard || this.readyShards.size === this.size) {
+			return;
+		}
+
+		this.readyShards.add(shard.id);
+
+		if (this.readyShards.size === this.size) {
+			new Trace("Sharder", `All ${this.size} shards are ready.`).trace();
+			this.client.events.emit("ready");
+		}
+	}
 }
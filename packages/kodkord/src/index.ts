@@ -1,8 +1,18 @@
+export * from "./api/interceptors";
+export * from "./api/presence";
+export * from "./api/inflator";
+export * from "./api/members";
+export * from "./api/limiter";
+export * from "./api/errors";
 export * from "./api/bucket";
+export * from "./api/routes";
+export * from "./api/router";
 export * from "./api/rest";
+export * from "./api/etf";
 export * from "./api/ws";
 
 export * from "./common/dictionary";
+export * from "./common/emitter";
 export * from "./common/log";
 
 export * from "./core/sharder";
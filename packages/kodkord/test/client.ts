@@ -13,7 +13,7 @@ CLIENT.shards.create(0);
 const USER = await CLIENT.rest.get<APIUser>("/users/@me");
 new Note("Client > User", inspect(USER, { depth: null })).note();
 
-CLIENT.events.set(GatewayDispatchEvents.MessageCreate, (data) => {
+CLIENT.on(GatewayDispatchEvents.MessageCreate, (data) => {
 	new Note("Client > MessageCreate", inspect(data, { depth: null })).note();
 });
 
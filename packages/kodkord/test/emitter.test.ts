@@ -0,0 +1,129 @@
+import { GatewayDispatchEvents } from "discord-api-types/v10";
+import { describe, expect, it } from "bun:test";
+
+import { type DispatchContext, Client } from "../src/core/client";
+import { Emitter } from "../src/common/emitter";
+
+/** Events of the emitters under test. */
+interface TestEvents {
+	message: [content: string];
+	move: [x: number, y: number];
+}
+
+describe("Emitter", () => {
+	it("Should call every listener in order, and once-listeners only once", () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const CALLS: string[] = [];
+		const REMOVED = (): void => {
+			CALLS.push("removed");
+		};
+
+		EMITTER.on("message", (content) => {
+			CALLS.push(`on ${content}`);
+		});
+		EMITTER.once("message", (content) => {
+			CALLS.push(`once ${content}`);
+		});
+		EMITTER.on("message", REMOVED);
+		EMITTER.off("message", REMOVED);
+
+		expect(EMITTER.emit("message", "a")).toBe(true);
+		expect(EMITTER.emit("message", "b")).toBe(true);
+		expect(EMITTER.emit("move", 0, 0)).toBe(false);
+		expect(CALLS).toEqual(["on a", "once a", "on b"]);
+		expect(EMITTER.listeners("message")).toBe(1);
+	});
+
+	it("Should keep calling listeners after one of them fails", async () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const CALLS: number[] = [];
+
+		EMITTER.on("move", () => {
+			throw new Error("Listener failure.");
+		});
+		EMITTER.on("move", async () => {
+			await Promise.resolve();
+			throw new Error("Listener rejection.");
+		});
+		EMITTER.on("move", (x, y) => {
+			CALLS.push(x + y);
+		});
+
+		expect(() => EMITTER.emit("move", 1, 2)).not.toThrow();
+		await Promise.resolve();
+
+		expect(CALLS).toEqual([3]);
+	});
+
+	it("Should resolve waits with the arguments accepted by the filter", async () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const MESSAGE = EMITTER.waitFor("message", { filter: (content) => content.startsWith("!") });
+		const MOVE = EMITTER.waitFor("move", { filter: (x) => x > 0 });
+
+		EMITTER.emit("message", "Hello!");
+		EMITTER.emit("message", "!ping");
+		EMITTER.emit("move", -1, 2);
+		EMITTER.emit("move", 1, 2);
+
+		expect(await MESSAGE).toBe("!ping");
+		expect(await MOVE).toEqual([1, 2]);
+		expect(EMITTER.listeners("message")).toBe(0);
+	});
+
+	it("Should reject waits that time out", async () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const WAIT = EMITTER.waitFor("message", { filter: () => false, timeout: 50 });
+
+		EMITTER.emit("message", "Hello!");
+
+		await expect(WAIT).rejects.toThrow("Timed out");
+		expect(EMITTER.listeners("message")).toBe(0);
+	});
+
+	it("Should reject waits that are aborted", async () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const CONTROLLER = new AbortController();
+		const WAIT = EMITTER.waitFor("message", { signal: CONTROLLER.signal });
+
+		CONTROLLER.abort();
+
+		await expect(WAIT).rejects.toThrow("Stopped waiting");
+		await expect(EMITTER.waitFor("move", { signal: CONTROLLER.signal })).rejects.toThrow(
+			"Stopped waiting"
+		);
+		expect(EMITTER.listeners("message")).toBe(0);
+		expect(EMITTER.listeners("move")).toBe(0);
+	});
+
+	it("Should not affect the existing listeners", async () => {
+		const EMITTER = new Emitter<TestEvents>();
+		const RECEIVED: string[] = [];
+
+		EMITTER.on("message", (content) => {
+			RECEIVED.push(content);
+		});
+
+		const WAIT = EMITTER.waitFor("message");
+
+		EMITTER.emit("message", "first");
+		EMITTER.emit("message", "second");
+
+		expect(await WAIT).toBe("first");
+		expect(RECEIVED).toEqual(["first", "second"]);
+		expect(EMITTER.listeners("message")).toBe(1);
+	});
+
+	it("Should resolve client waits for dispatch events with their data", async () => {
+		const CLIENT = new Client({ token: "token", intents: 0, sweepInterval: 0 });
+		const CONTEXT = { sequence: 1, timestamp: 0 } as DispatchContext;
+		const EVENT = GatewayDispatchEvents.TypingStart;
+		const WAIT = CLIENT.waitFor(EVENT, {
+			filter: (data, context) => data.user_id === "2" && context.sequence === 1
+		});
+
+		CLIENT.events.emit(EVENT, { channel_id: "1", user_id: "1", timestamp: 0 }, CONTEXT);
+		CLIENT.events.emit(EVENT, { channel_id: "1", user_id: "2", timestamp: 0 }, CONTEXT);
+
+		expect(await WAIT).toEqual({ channel_id: "1", user_id: "2", timestamp: 0 });
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import PAYLOADS from "./fixtures/etf/payloads.json";
+import { pack, unpack } from "../src/api/etf";
+
+/**
+ * Reads a recorded binary from the fixtures.
+ *
+ * @param name The name of the fixture.
+ * @returns The recorded binary.
+ */
+function fixture(name: keyof typeof PAYLOADS): Buffer {
+	return readFileSync(join(import.meta.dir, "fixtures", "etf", `${name}.bin`));
+}
+
+describe("ETF", () => {
+	it("Should decode received payloads into their JSON shapes", () => {
+		expect(unpack(fixture("hello"))).toEqual(PAYLOADS.hello);
+		expect(unpack(fixture("ready"))).toEqual(PAYLOADS.ready);
+		expect(unpack(fixture("presence"))).toEqual(PAYLOADS.presence);
+	});
+
+	it("Should decode snowflakes as strings", () => {
+		const READY = unpack(fixture("ready")) as typeof PAYLOADS.ready;
+
+		expect(READY.d.user.id).toBe("1234567890123456789");
+		expect(READY.d.guilds.map((guild) => guild.id)).toEqual([
+			"81384788765712384",
+			"613425648685547541"
+		]);
+	});
+
+	it("Should encode sent payloads into the recorded binaries", () => {
+		expect(pack(PAYLOADS.heartbeat)).toEqual(fixture("heartbeat"));
+		expect(pack(PAYLOADS.identify)).toEqual(fixture("identify"));
+		expect(pack(PAYLOADS["request-guild-members"])).toEqual(fixture("request-guild-members"));
+	});
+
+	it("Should round-trip every fixture", () => {
+		for (const NAME of Object.keys(PAYLOADS) as (keyof typeof PAYLOADS)[]) {
+			expect(unpack(pack(unpack(fixture(NAME))))).toEqual(PAYLOADS[NAME]);
+		}
+	});
+
+	it("Should reject malformed binaries", () => {
+		expect(() => unpack(Buffer.from([130, 97, 1]))).toThrowError();
+		expect(() => unpack(fixture("ready").subarray(0, 100))).toThrowError();
+		expect(() => unpack(Buffer.concat([fixture("heartbeat"), Buffer.from([106])]))).toThrowError();
+	});
+});
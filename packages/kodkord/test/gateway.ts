@@ -0,0 +1,201 @@
+import type { WebSocketSettings } from "../src/api/ws";
+import type { Shard } from "../src/core/shard";
+import type { AddressInfo } from "node:net";
+
+import {
+	type GatewayDispatchPayload,
+	type GatewayReceivePayload,
+	type GatewaySendPayload,
+	GatewayDispatchEvents
+} from "discord-api-types/v10";
+import { type WebSocket as Socket, WebSocketServer } from "ws";
+
+import { WebSocket } from "../src/api/ws";
+import { Events } from "../src/core/client";
+
+/**
+ * A fake Discord Gateway, recording the payloads it receives.
+ *
+ * Payloads are only sent when a test asks for them, so each test drives the connection itself.
+ */
+export class Gateway {
+	/** The underlying server. */
+	private readonly server: WebSocketServer;
+
+	/** Every connection the gateway accepted, the latest one last. */
+	public readonly sockets: Socket[];
+
+	/** Every payload received, along with the index of the connection it was received on. */
+	public readonly received: [payload: GatewaySendPayload, connection: number][];
+
+	/**
+	 * Creates a new `Gateway` instance.
+	 *
+	 * @param server The server accepting the connections.
+	 */
+	private constructor(server: WebSocketServer) {
+		this.server = server;
+		this.sockets = [];
+		this.received = [];
+
+		server.on("connection", (socket) => {
+			const CONNECTION = this.sockets.push(socket) - 1;
+
+			socket.on("message", (data) => {
+				this.received.push([JSON.parse(String(data)) as GatewaySendPayload, CONNECTION]);
+			});
+		});
+	}
+
+	/**
+	 * Starts a fake gateway on a random port.
+	 *
+	 * @returns The listening gateway.
+	 */
+	public static async start(): Promise<Gateway> {
+		const SERVER = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+
+		await new Promise((resolve) => {
+			SERVER.once("listening", resolve);
+		});
+
+		return new Gateway(SERVER);
+	}
+
+	/**
+	 * Returns the address connections should use.
+	 *
+	 * @returns The address of the gateway.
+	 */
+	public get url(): string {
+		return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	/**
+	 * Creates a connection to the gateway, without connecting it.
+	 *
+	 * @param settings Settings overriding the defaults of the connection.
+	 * @param shard The shard the connection belongs to.
+	 * @returns The connection.
+	 */
+	public socket(settings?: Partial<WebSocketSettings>, shard = {} as Shard): WebSocket {
+		return new WebSocket(
+			{
+				token: "token",
+				url: this.url,
+				intents: 0,
+				device: "kodkord",
+				browser: "kodkord",
+				os: "linux",
+				shard: [0, 1],
+				events: new Events(),
+				...settings
+			},
+			shard
+		);
+	}
+
+	/**
+	 * Sends a payload through a connection.
+	 *
+	 * @param payload The payload to send.
+	 * @param socket The connection to send it through. Defaults to the latest one.
+	 */
+	public send(payload: GatewayReceivePayload, socket = this.sockets.at(-1)): void {
+		socket?.send(JSON.stringify(payload));
+	}
+
+	/**
+	 * Sends the hello payload through a connection.
+	 *
+	 * @param interval The heartbeat interval in milliseconds. Defaults to a minute.
+	 * @param socket The connection to send it through. Defaults to the latest one.
+	 */
+	public hello(interval = 60_000, socket = this.sockets.at(-1)): void {
+		this.send({ op: 10, d: { heartbeat_interval: interval }, s: null, t: null }, socket);
+	}
+
+	/**
+	 * Sends a dispatch payload through a connection.
+	 *
+	 * @param event The name of the event.
+	 * @param data The data of the event, which isn't checked against the event.
+	 * @param sequence The sequence number of the event.
+	 * @param socket The connection to send it through. Defaults to the latest one.
+	 */
+	public dispatch(
+		event: GatewayDispatchEvents,
+		data: object,
+		sequence: number,
+		socket = this.sockets.at(-1)
+	): void {
+		this.send({ op: 0, t: event, d: data, s: sequence } as GatewayDispatchPayload, socket);
+	}
+
+	/**
+	 * Sends the `READY` dispatch through a connection, resuming on this gateway.
+	 *
+	 * @param session The Id of the session.
+	 * @param socket The connection to send it through. Defaults to the latest one.
+	 */
+	public ready(session = "session", socket = this.sockets.at(-1)): void {
+		this.dispatch(
+			GatewayDispatchEvents.Ready,
+			{ v: 10, user: {}, guilds: [], session_id: session, resume_gateway_url: this.url },
+			1,
+			socket
+		);
+	}
+
+	/**
+	 * Returns the payloads received with an opcode.
+	 *
+	 * @param op The opcode of the payloads.
+	 * @returns The payloads, in the order they were received.
+	 */
+	public payloads(op: number): GatewaySendPayload[] {
+		return this.received.filter(([payload]) => payload.op === op).map(([payload]) => payload);
+	}
+
+	/**
+	 * Closes the latest connection from the gateway side.
+	 *
+	 * @param code The close code.
+	 */
+	public close(code: number): void {
+		this.sockets.at(-1)?.close(code);
+	}
+
+	/** Stops the gateway, closing every connection. */
+	public async stop(): Promise<void> {
+		for (const SOCKET of this.sockets) {
+			SOCKET.terminate();
+		}
+
+		await new Promise((resolve) => {
+			this.server.close(resolve);
+		});
+	}
+}
+
+/**
+ * Waits until a condition is met, checking it every few milliseconds.
+ *
+ * @param condition The condition to wait for.
+ * @param timeout The time in milliseconds after which the wait fails. Defaults to a second.
+ * @throws If the condition isn't met in time.
+ */
+export async function until(condition: () => boolean, timeout = 1_000): Promise<void> {
+	// Measured with the monotonic clock, so tests can change the system time.
+	const DEADLINE = performance.now() + timeout;
+
+	while (!condition()) {
+		if (performance.now() > DEADLINE) {
+			throw new Error(`The condition wasn't met within ${timeout}ms.`);
+		}
+
+		await new Promise((resolve) => {
+			setTimeout(resolve, 5);
+		});
+	}
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+
+import FIXTURE from "./fixtures/zlib-stream.json";
+import { Inflator } from "../src/api/inflator";
+
+/**
+ * Decompresses the recorded frames through a single `Inflator`, like a Gateway connection would.
+ *
+ * @param frames The recorded frames, encoded in base64.
+ * @returns The decoded payloads of the complete messages.
+ */
+async function inflate(frames: string[]): Promise<unknown[]> {
+	const INFLATOR = new Inflator();
+	const MESSAGES = await Promise.all(
+		frames.map((frame) => INFLATOR.push(Buffer.from(frame, "base64")))
+	);
+
+	INFLATOR.close();
+
+	return MESSAGES.filter((message) => message !== undefined).map((message) =>
+		JSON.parse(message.toString())
+	);
+}
+
+describe("Inflator", () => {
+	it("Should decompress recorded frames in order", async () => {
+		expect(await inflate(FIXTURE.frames)).toEqual(FIXTURE.payloads);
+	});
+
+	it("Should buffer a message split across frames", async () => {
+		const INFLATOR = new Inflator();
+		const FRAMES = FIXTURE.frames.map((frame) => Buffer.from(frame, "base64"));
+
+		for (const FRAME of FRAMES.slice(0, -2)) {
+			await INFLATOR.push(FRAME);
+		}
+
+		expect(await INFLATOR.push(FRAMES[FRAMES.length - 2])).toBeUndefined();
+
+		const MESSAGE = await INFLATOR.push(FRAMES[FRAMES.length - 1]);
+		INFLATOR.close();
+
+		expect(JSON.parse(String(MESSAGE))).toEqual(FIXTURE.payloads[FIXTURE.payloads.length - 1]);
+	});
+
+	it("Should fail to decompress frames out of their context", async () => {
+		const INFLATOR = new Inflator();
+
+		await expect(INFLATOR.push(Buffer.from(FIXTURE.frames[1], "base64"))).rejects.toThrow();
+		INFLATOR.close();
+	});
+});
@@ -0,0 +1,79 @@
+import type { GatewayGuildMembersChunkDispatchData, APIGuildMember } from "discord-api-types/v10";
+
+import { describe, expect, it } from "bun:test";
+
+import { GuildMembersRequests } from "../src/api/members";
+
+/**
+ * Creates the data of a `GUILD_MEMBERS_CHUNK` dispatch.
+ *
+ * @param nonce The nonce of the request the chunk belongs to.
+ * @param index The index of the chunk.
+ * @param count The total number of chunks.
+ * @param data Additional data of the chunk.
+ * @returns The data of the chunk.
+ */
+function chunk(
+	nonce: string | undefined,
+	index: number,
+	count: number,
+	data?: Partial<GatewayGuildMembersChunkDispatchData>
+): GatewayGuildMembersChunkDispatchData {
+	return {
+		guild_id: "1",
+		members: [{ nick: `member ${index}` } as APIGuildMember],
+		chunk_index: index,
+		chunk_count: count,
+		nonce,
+		...data
+	};
+}
+
+describe("GuildMembersRequests", () => {
+	it("Should build the payload from the request options", async () => {
+		const REQUESTS = new GuildMembersRequests();
+		const [BY_QUERY, QUERY_RESULT] = REQUESTS.track({ guildId: "1", query: "ko", timeout: 10 });
+		const [BY_IDS, IDS_RESULT] = REQUESTS.track({ guildId: "1", userIds: ["2"], timeout: 10 });
+
+		expect(BY_QUERY).toMatchObject({ guild_id: "1", query: "ko", limit: 0 });
+		expect(BY_IDS).toMatchObject({ guild_id: "1", user_ids: ["2"] });
+		expect(BY_IDS).not.toHaveProperty("query");
+		expect(BY_QUERY.nonce).not.toBe(BY_IDS.nonce);
+
+		await expect(Promise.all([QUERY_RESULT, IDS_RESULT])).rejects.toThrow();
+	});
+
+	it("Should resolve once every chunk of the request has arrived", async () => {
+		const REQUESTS = new GuildMembersRequests();
+		const [DATA, RESULT] = REQUESTS.track({ guildId: "1", userIds: ["2", "3"] });
+		let resolved = false;
+
+		RESULT.then(() => {
+			resolved = true;
+		});
+
+		REQUESTS.receive(chunk(DATA.nonce, 0, 2));
+		REQUESTS.receive(chunk("other", 1, 2));
+		REQUESTS.receive(chunk(undefined, 1, 2));
+		await Promise.resolve();
+
+		expect(resolved).toBe(false);
+
+		REQUESTS.receive(chunk(DATA.nonce, 1, 2, { not_found: ["3"], presences: [] }));
+
+		expect(await RESULT).toEqual({
+			members: [{ nick: "member 0" }, { nick: "member 1" }] as APIGuildMember[],
+			presences: [],
+			notFound: ["3"]
+		});
+	});
+
+	it("Should reject when the chunks don't arrive in time", async () => {
+		const REQUESTS = new GuildMembersRequests();
+		const [DATA, RESULT] = REQUESTS.track({ guildId: "1", timeout: 10 });
+
+		REQUESTS.receive(chunk(DATA.nonce, 0, 2));
+
+		await expect(RESULT).rejects.toThrow("Timed out waiting for the members");
+	});
+});
@@ -0,0 +1,49 @@
+import {
+	type GatewayPresenceUpdateData,
+	PresenceUpdateStatus,
+	ActivityType
+} from "discord-api-types/v10";
+import { describe, expect, it } from "bun:test";
+
+import { resolvePresence } from "../src/api/presence";
+
+describe("Presence", () => {
+	it("Should fill missing values with an online presence", () => {
+		expect(resolvePresence({})).toEqual({
+			since: null,
+			activities: [],
+			status: PresenceUpdateStatus.Online,
+			afk: false
+		});
+		expect(
+			resolvePresence({
+				status: PresenceUpdateStatus.DoNotDisturb,
+				activities: [{ name: "Kodkord", type: ActivityType.Streaming, url: "https://twitch.tv/a" }]
+			})
+		).toMatchObject({ status: PresenceUpdateStatus.DoNotDisturb, since: null, afk: false });
+	});
+
+	it("Should reject invalid statuses and values", () => {
+		expect(() => resolvePresence({ status: "away" as PresenceUpdateStatus })).toThrow(
+			'Unknown status "away".'
+		);
+		expect(() => resolvePresence({ since: 1.5 })).toThrow("The `since` value");
+		expect(() => resolvePresence({ afk: "yes" } as unknown as GatewayPresenceUpdateData)).toThrow(
+			"The `afk` value"
+		);
+	});
+
+	it("Should reject invalid activities", () => {
+		expect(() =>
+			resolvePresence({ activities: [{ name: "", type: ActivityType.Playing }] })
+		).toThrow("Activity #0: The name must be a non-empty string.");
+		expect(() =>
+			resolvePresence({ activities: [{ name: "Kodkord", type: 42 as ActivityType }] })
+		).toThrow('Activity #0: Unknown activity type "42".');
+		expect(() =>
+			resolvePresence({
+				activities: [{ name: "Kodkord", type: ActivityType.Playing, url: "https://kodko.do" }]
+			})
+		).toThrow("Activity #0: Only streaming activities can have a URL.");
+	});
+});
@@ -0,0 +1,568 @@
+import type { InterceptorContext } from "../src/api/interceptors";
+import type { AddressInfo } from "node:net";
+
+import { type IncomingMessage, type ServerResponse, type Server, createServer } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { Readable } from "node:stream";
+
+import { DiscordAPIError, HTTPError } from "../src/api/errors";
+import { type RestSettings, Rest } from "../src/api/rest";
+
+/**
+ * A route of the fake API, answering with a status, headers and a body.
+ *
+ * Strings and Buffers are sent as they are, `undefined` as an empty body, and any other body as
+ * JSON. Returning `undefined` leaves the request hanging.
+ */
+type Handler = (
+	request: IncomingMessage,
+	count: number,
+	body: string
+) => [status: number, headers: Record<string, string>, body: unknown] | undefined;
+
+/** Handlers of the fake API by path, along with the number of requests each received. */
+const ROUTES = new Map<string, { handler: Handler; count: number }>();
+
+let server: Server;
+let rest: Rest;
+
+/**
+ * Creates a `Rest` instance sending its requests to the fake API.
+ *
+ * @param settings Settings overriding the defaults of the instance.
+ * @returns The new `Rest` instance.
+ */
+function client(settings?: Partial<RestSettings>): Rest {
+	return new Rest({
+		token: "token",
+		baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		sweepInterval: 0,
+		...settings
+	});
+}
+
+/**
+ * Registers a route on the fake API.
+ *
+ * @param path The path of the route.
+ * @param handler The handler answering the requests of the route.
+ */
+function route(path: string, handler: Handler): void {
+	ROUTES.set(path, { handler, count: 0 });
+}
+
+beforeAll(async () => {
+	server = createServer((request: IncomingMessage, response: ServerResponse) => {
+		const ROUTE = ROUTES.get(request.url ?? "");
+
+		if (!ROUTE) {
+			response.writeHead(404).end();
+			return;
+		}
+
+		const CHUNKS: Buffer[] = [];
+
+		request.on("data", (chunk: Buffer) => CHUNKS.push(chunk));
+		request.on("end", () => {
+			const ANSWER = ROUTE.handler(request, ++ROUTE.count, Buffer.concat(CHUNKS).toString());
+
+			if (!ANSWER) {
+				return;
+			}
+
+			const [STATUS, HEADERS, BODY] = ANSWER;
+			response.writeHead(STATUS, { "Content-Type": "application/json", ...HEADERS });
+			response.end(
+				typeof BODY === "string" || Buffer.isBuffer(BODY) || BODY === undefined
+					? BODY
+					: JSON.stringify(BODY)
+			);
+		});
+	});
+
+	await new Promise<void>((resolve) => {
+		server.listen(0, "127.0.0.1", resolve);
+	});
+
+	rest = client();
+});
+
+afterAll(() => {
+	server.closeAllConnections();
+	server.close();
+});
+
+describe("Rest", () => {
+	it("Should wait for the reset of an exhausted bucket", async () => {
+		route("/limited", () => [
+			200,
+			{
+				"X-RateLimit-Limit": "1",
+				"X-RateLimit-Remaining": "0",
+				"X-RateLimit-Reset": String(Date.now() / 1_000 + 0.25),
+				"X-RateLimit-Reset-After": "0.25"
+			},
+			{ ok: true }
+		]);
+
+		const START = Date.now();
+		await Promise.all([rest.get("/limited"), rest.get("/limited")]);
+		const ELAPSED = Date.now() - START;
+
+		expect(ELAPSED).toBeGreaterThanOrEqual(240);
+		expect(ELAPSED).toBeLessThan(1_000);
+	});
+
+	it("Should not wait while the bucket has remaining requests", async () => {
+		route("/remaining", (_, count) => [
+			200,
+			{
+				"X-RateLimit-Limit": "5",
+				"X-RateLimit-Remaining": String(5 - count),
+				"X-RateLimit-Reset-After": "5"
+			},
+			{ count }
+		]);
+
+		const START = Date.now();
+		const RESULTS = await Promise.all(
+			[1, 2, 3].map(() => rest.get<{ count: number }>("/remaining"))
+		);
+
+		expect(RESULTS.map((result) => result.count)).toEqual([1, 2, 3]);
+		expect(Date.now() - START).toBeLessThan(1_000);
+	});
+
+	it("Should not stall routes without rate limit headers", async () => {
+		route("/unlimited", (_, count) => [200, {}, { count }]);
+
+		const START = Date.now();
+		await Promise.all([1, 2, 3, 4, 5].map(() => rest.get("/unlimited")));
+
+		expect(Date.now() - START).toBeLessThan(1_000);
+	});
+
+	it("Should keep the state of an exhausted bucket after learning its hash", async () => {
+		route("/hashed", () => [
+			200,
+			{
+				"X-RateLimit-Bucket": "hashed",
+				"X-RateLimit-Limit": "1",
+				"X-RateLimit-Remaining": "0",
+				"X-RateLimit-Reset-After": "0.25"
+			},
+			{ ok: true }
+		]);
+
+		await rest.get("/hashed");
+
+		const START = Date.now();
+		await rest.get("/hashed");
+		const ELAPSED = Date.now() - START;
+
+		expect(ELAPSED).toBeGreaterThanOrEqual(240);
+		expect(ELAPSED).toBeLessThan(1_000);
+	});
+
+	it("Should share the bucket of routes with the same hash", async () => {
+		const HANDLER: Handler = () => [
+			200,
+			{
+				"X-RateLimit-Bucket": "shared",
+				"X-RateLimit-Limit": "1",
+				"X-RateLimit-Remaining": "0",
+				"X-RateLimit-Reset-After": "0.25"
+			},
+			{ ok: true }
+		];
+
+		route("/shared-a", HANDLER);
+		route("/shared-b", HANDLER);
+
+		const REST = client();
+		await REST.get("/shared-a");
+		await REST.get("/shared-b");
+
+		expect(REST.getBucket("/shared-a")).toBe(REST.getBucket("/shared-b"));
+
+		const START = Date.now();
+		await REST.get("/shared-a");
+
+		expect(Date.now() - START).toBeGreaterThanOrEqual(240);
+
+		// Sweeping the shared bucket forgets the hashes along with it.
+		await new Promise((resolve) => {
+			setTimeout(resolve, 10);
+		});
+		REST.sweep(0);
+
+		expect(REST.getBucket("/shared-a")).not.toBe(REST.getBucket("/shared-b"));
+	});
+
+	it("Should retry after a 429 response", async () => {
+		route("/rate-limited", (_, count) =>
+			count === 1
+				? [
+					429,
+					{ "Retry-After": "1" },
+					{ message: "You are being rate limited.", retry_after: 0.2, global: false }
+				]
+				: [200, {}, { count }]
+		);
+
+		const START = Date.now();
+		const RESULT = await rest.get<{ count: number }>("/rate-limited");
+
+		expect(RESULT.count).toBe(2);
+		expect(Date.now() - START).toBeGreaterThanOrEqual(190);
+	});
+
+	it("Should hold requests to every route during a global rate limit", async () => {
+		const ARRIVALS: number[] = [];
+
+		route("/global-first", (_, count) =>
+			count === 1
+				? [
+					429,
+					{ "X-RateLimit-Global": "true" },
+					{ message: "You are being rate limited.", retry_after: 0.3, global: true }
+				]
+				: [200, {}, { count }]
+		);
+		route("/global-other", () => {
+			ARRIVALS.push(Date.now());
+			return [200, {}, {}];
+		});
+
+		const REST = client();
+		const START = Date.now();
+		const FIRST = REST.get("/global-first");
+
+		while (ROUTES.get("/global-first")?.count === 0) {
+			await new Promise((resolve) => {
+				setTimeout(resolve, 5);
+			});
+		}
+
+		await REST.get("/global-other");
+
+		expect(await FIRST).toEqual({ count: 2 });
+		expect(ARRIVALS[0] - START).toBeGreaterThanOrEqual(290);
+	});
+
+	it("Should count 401, 403 and 429 responses toward the invalid request limit", async () => {
+		route("/unauthorized", () => [401, {}, { code: 0, message: "401: Unauthorized" }]);
+		route("/forbidden", () => [403, {}, { code: 50013, message: "Missing Permissions" }]);
+		route("/shared-limited", () => [
+			429,
+			{ "X-RateLimit-Scope": "shared" },
+			{ message: "You are being rate limited.", retry_after: 0, global: false }
+		]);
+		route("/user-limited", () => [
+			429,
+			{},
+			{ message: "You are being rate limited.", retry_after: 0, global: false }
+		]);
+		route("/valid", () => [200, {}, {}]);
+
+		const REST = client({ invalidRequestLimit: 3, rateLimitRetries: 0 });
+
+		await expect(REST.get("/unauthorized")).rejects.toThrow();
+		await expect(REST.get("/forbidden")).rejects.toThrow();
+		// 429 responses of shared rate limits don't count.
+		await expect(REST.get("/shared-limited")).rejects.toThrow();
+		await REST.get("/valid");
+		await expect(REST.get("/user-limited")).rejects.toThrow();
+
+		const BLOCKED = REST.get("/valid", { signal: AbortSignal.timeout(200) });
+
+		await expect(BLOCKED).rejects.toThrow();
+		expect(ROUTES.get("/valid")?.count).toBe(1);
+	});
+
+	it("Should throw a DiscordAPIError with the flattened field errors", async () => {
+		route("/invalid", () => [
+			400,
+			{},
+			{
+				code: 50035,
+				message: "Invalid Form Body",
+				errors: {
+					embeds: {
+						0: {
+							description: {
+								_errors: [{ code: "BASE_TYPE_MAX_LENGTH", message: "Too long." }]
+							}
+						}
+					}
+				}
+			}
+		]);
+
+		const ERROR = await rest
+			.post<never>("/invalid", { body: { embeds: [{ description: "" }] } })
+			.catch((error: DiscordAPIError) => error);
+
+		expect(ERROR).toBeInstanceOf(DiscordAPIError);
+		expect(ERROR.status).toBe(400);
+		expect(ERROR.code).toBe(50035);
+		expect(ERROR.route).toBe("/invalid");
+		expect(ERROR.requestBody).toEqual({ embeds: [{ description: "" }] });
+		expect(ERROR.errors).toEqual([
+			{ path: "embeds[0].description", code: "BASE_TYPE_MAX_LENGTH", message: "Too long." }
+		]);
+	});
+
+	it("Should throw an HTTPError for responses outside Discord's error format", async () => {
+		route("/broken", () => [502, {}, "Bad Gateway"]);
+
+		const ERROR = await rest.get<never>("/broken").catch((error: HTTPError) => error);
+
+		expect(ERROR).toBeInstanceOf(HTTPError);
+		expect(ERROR).not.toBeInstanceOf(DiscordAPIError);
+		expect(ERROR.status).toBe(502);
+		expect(ERROR.responseBody).toBe("Bad Gateway");
+	});
+
+	it("Should upload files as multipart form data", async () => {
+		let type: string | undefined;
+		let received = "";
+
+		route("/upload", (request, _, body) => {
+			type = request.headers["content-type"];
+			received = body;
+			return [200, {}, { ok: true }];
+		});
+
+		await rest.post("/upload", {
+			body: { attachments: [{ id: 0 }] },
+			files: [
+				{ name: "buffer.txt", data: Buffer.from("from a buffer") },
+				{ name: "blob.json", data: new Blob(["{}"], { type: "application/json" }) },
+				{ name: "stream.log", data: Readable.from([Buffer.from("from a stream")]) }
+			]
+		});
+
+		expect(type).toStartWith("multipart/form-data; boundary=");
+		expect(received).toContain('name="payload_json"');
+		expect(received).toContain('{"attachments":[{"id":0}]}');
+		expect(received).toContain('name="files[0]"; filename="buffer.txt"');
+		expect(received).toContain("from a buffer");
+		expect(received).toContain('name="files[1]"; filename="blob.json"');
+		expect(received).toContain('name="files[2]"; filename="stream.log"');
+		expect(received).toContain("from a stream");
+	});
+
+	it("Should retry idempotent requests after a 5xx response", async () => {
+		route("/unstable", (_, count) =>
+			count === 1
+				? [503, {}, { message: "Service Unavailable" }]
+				: [200, {}, { count }]
+		);
+
+		const RESULT = await rest.get<{ count: number }>("/unstable");
+
+		expect(RESULT.count).toBe(2);
+	});
+
+	it("Should not retry non-idempotent requests", async () => {
+		route("/unstable-post", () => [503, {}, { message: "Service Unavailable" }]);
+
+		const ERROR = await rest.post<never>("/unstable-post").catch((error: HTTPError) => error);
+
+		expect(ERROR.status).toBe(503);
+		expect(ROUTES.get("/unstable-post")?.count).toBe(1);
+	});
+
+	it("Should abort requests after their timeout", async () => {
+		route("/hanging", () => undefined);
+
+		const START = Date.now();
+		const ERROR = await rest
+			.post<never>("/hanging", { timeout: 100 })
+			.catch((error: Error) => error);
+
+		expect(ERROR).toBeInstanceOf(Error);
+		expect(Date.now() - START).toBeLessThan(1_000);
+	});
+
+	it("Should remove aborted requests from the bucket queue", async () => {
+		route("/queued", (_, count) =>
+			count === 1
+				? undefined
+				: [200, {}, { count }]
+		);
+
+		const CONTROLLER = new AbortController();
+		const START = Date.now();
+		const RUNNING = rest.post("/queued", { timeout: 300 }).catch((error: Error) => error);
+		const QUEUED = rest.post("/queued", { signal: CONTROLLER.signal });
+
+		CONTROLLER.abort(new Error("Aborted"));
+
+		await expect(QUEUED).rejects.toThrow("Aborted");
+		expect(Date.now() - START).toBeLessThan(250);
+		expect(await RUNNING).toBeInstanceOf(Error);
+		expect(await rest.post<{ count: number }>("/queued")).toEqual({ count: 2 });
+	});
+
+	it("Should not send requests aborted while waiting for the global rate limit", async () => {
+		route("/global-limited", () => [
+			429,
+			{ "X-RateLimit-Global": "true" },
+			{ message: "You are being rate limited.", retry_after: 1, global: true }
+		]);
+
+		const CONTROLLER = new AbortController();
+		const REASON = new Error("Aborted");
+		const START = Date.now();
+		const LIMITED = client().post("/global-limited", { signal: CONTROLLER.signal });
+
+		setTimeout(
+			() => {
+				CONTROLLER.abort(REASON);
+			},
+			200
+		);
+
+		await expect(LIMITED).rejects.toBe(REASON);
+		expect(Date.now() - START).toBeLessThan(500);
+
+		await new Promise((resolve) => {
+			setTimeout(resolve, 1_000);
+		});
+
+		expect(ROUTES.get("/global-limited")?.count).toBe(1);
+	});
+
+	it("Should resolve empty responses to undefined", async () => {
+		route("/no-content", () => [204, {}, undefined]);
+		route("/empty", () => [200, {}, undefined]);
+
+		expect(await rest.put("/no-content")).toBeUndefined();
+		expect(await rest.get("/empty")).toBeUndefined();
+	});
+
+	it("Should decode text and binary responses", async () => {
+		route("/text", () => [200, { "Content-Type": "text/plain; charset=utf-8" }, "Kodkord"]);
+		route("/binary", () => [200, { "Content-Type": "image/png" }, Buffer.from([0x89, 0x50])]);
+
+		expect(await rest.get<string>("/text")).toBe("Kodkord");
+		expect(await rest.get<Buffer>("/binary")).toEqual(Buffer.from([0x89, 0x50]));
+	});
+
+	it("Should decode responses as the response parameter asks", async () => {
+		route("/forced-text", () => [200, { "Content-Type": "application/json" }, { id: "1" }]);
+		route("/forced-binary", () => [200, { "Content-Type": "text/plain" }, "Kodkord"]);
+		route("/forced-json", () => [200, { "Content-Type": "text/plain" }, '{"id":"1"}']);
+		route("/forced-empty", () => [204, {}, undefined]);
+
+		const TEXT: string = await rest.get("/forced-text", { response: "text" });
+		const BINARY: Buffer = await rest.get("/forced-binary", { response: "binary" });
+		const EMPTY: string = await rest.delete("/forced-empty", { response: "text" });
+
+		expect(TEXT).toBe('{"id":"1"}');
+		expect(BINARY).toEqual(Buffer.from("Kodkord"));
+		expect(await rest.get<object>("/forced-json", { response: "json" })).toEqual({ id: "1" });
+		expect(EMPTY).toBe("");
+	});
+
+	it("Should let interceptors modify requests and observe responses", async () => {
+		const CONTEXTS: InterceptorContext[] = [];
+		const INTERCEPTED = client()
+			.onRequest((context) => {
+				context.options.headers["X-Request-Id"] = `request-${context.attempt}`;
+			})
+			.onResponse((context) => {
+				CONTEXTS.push(context);
+			});
+
+		route("/intercepted", (request) => [200, {}, { id: request.headers["x-request-id"] }]);
+
+		expect(await INTERCEPTED.get<{ id: string }>("/intercepted")).toEqual({ id: "request-1" });
+		expect(CONTEXTS).toHaveLength(1);
+		expect(CONTEXTS[0]).toMatchObject({ method: "GET", route: "/intercepted", attempt: 1 });
+		expect(CONTEXTS[0].bucket).toBe("GET /intercepted");
+		expect(CONTEXTS[0].timing.sent).toBeGreaterThanOrEqual(CONTEXTS[0].timing.queued);
+		expect(CONTEXTS[0].timing.elapsed).toBeGreaterThanOrEqual(0);
+	});
+
+	it("Should short-circuit requests answered by an interceptor", async () => {
+		const INTERCEPTED = client().onRequest(() => Response.json({ cached: true }));
+
+		route("/cached", () => [200, {}, { cached: false }]);
+
+		expect(await INTERCEPTED.get<{ cached: boolean }>("/cached")).toEqual({ cached: true });
+		expect(ROUTES.get("/cached")?.count).toBe(0);
+	});
+
+	it("Should call the rate limit and error interceptors", async () => {
+		const LIMITS: number[] = [];
+		const ERRORS: unknown[] = [];
+		const INTERCEPTED = client()
+			.onRateLimit((context) => {
+				LIMITS.push(context.retryAfter);
+			})
+			.onError((context) => {
+				ERRORS.push(context.error);
+			});
+
+		route("/failing", (_, count) =>
+			count === 1
+				? [429, {}, { message: "You are being rate limited.", retry_after: 0.1, global: false }]
+				: [403, {}, { code: 50013, message: "Missing Permissions" }]
+		);
+
+		const ERROR = await INTERCEPTED.post<never>("/failing").catch((error: Error) => error);
+
+		expect(LIMITS).toEqual([100]);
+		expect(ERRORS).toEqual([ERROR]);
+		expect((ERROR as DiscordAPIError).code).toBe(50013);
+	});
+
+	it("Should not retry requests whose interceptor throws", async () => {
+		const ERRORS: unknown[] = [];
+		let attempts = 0;
+		const INTERCEPTED = client()
+			.onRequest(() => {
+				attempts++;
+				throw new Error("Interceptor failed");
+			})
+			.onError((context) => {
+				ERRORS.push(context.error);
+			});
+
+		route("/interceptor-failure", () => [200, {}, { ok: true }]);
+
+		const START = Date.now();
+		const ERROR = await INTERCEPTED.get("/interceptor-failure").catch((error: Error) => error);
+
+		expect((ERROR as Error).message).toContain("Interceptor failed");
+		expect(Date.now() - START).toBeLessThan(250);
+		expect(attempts).toBe(1);
+		expect(ERRORS).toEqual([ERROR]);
+		expect(ROUTES.get("/interceptor-failure")?.count).toBe(0);
+	});
+
+	it("Should call the error interceptors of requests aborted while queued", async () => {
+		const ERRORS: unknown[] = [];
+		const INTERCEPTED = client().onError((context) => {
+			ERRORS.push(context.error);
+		});
+
+		route("/queued-intercepted", () => undefined);
+
+		const CONTROLLER = new AbortController();
+		const REASON = new Error("Aborted");
+		const RUNNING = INTERCEPTED.post("/queued-intercepted", { timeout: 200 }).catch(
+			(error: Error) => error
+		);
+		const QUEUED = INTERCEPTED.post("/queued-intercepted", { signal: CONTROLLER.signal });
+
+		CONTROLLER.abort(REASON);
+
+		await expect(QUEUED).rejects.toBe(REASON);
+		expect(ERRORS).toEqual([REASON]);
+		expect(await RUNNING).toBeInstanceOf(Error);
+	});
+});
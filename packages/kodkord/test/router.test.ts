@@ -0,0 +1,95 @@
+import type { APIRequestParameters, Rest } from "../src/api/rest";
+
+import { describe, expect, it } from "bun:test";
+
+import { createRouter } from "../src/api/router";
+
+/** A request received by the fake `Rest`. */
+type Call = [method: string, route: string, parameters: unknown];
+
+/**
+ * Creates routes sending their requests to a fake `Rest`, which records them.
+ *
+ * @returns The routes along with the recorded requests.
+ */
+function router(): [ReturnType<typeof createRouter>, Call[]] {
+	const CALLS: Call[] = [];
+	const REST = Object.fromEntries(
+		["delete", "patch", "post", "get", "put"].map((method) => [
+			method,
+			(route: string, parameters: APIRequestParameters) => {
+				CALLS.push([method, route, parameters]);
+				return Promise.resolve(undefined);
+			}
+		])
+	);
+
+	return [createRouter(REST as unknown as Rest), CALLS];
+}
+
+describe("Router", () => {
+	it("Should build routes from properties and calls", async () => {
+		const [API, CALLS] = router();
+
+		await API.channels("81384788765712384").messages.post({ content: "Hello!" });
+		await API.channels("81384788765712384")
+			.messages("1234567890123456789")
+			.reactions("👍")("@me")
+			.put();
+		await API.interactions("81384788765712384", "token").callback.post({ type: 1 });
+
+		expect(CALLS).toEqual([
+			["post", "/channels/81384788765712384/messages", { body: { content: "Hello!" } }],
+			[
+				"put",
+				"/channels/81384788765712384/messages/1234567890123456789/reactions/%F0%9F%91%8D/@me",
+				{ body: undefined }
+			],
+			["post", "/interactions/81384788765712384/token/callback", { body: { type: 1 } }]
+		]);
+	});
+
+	it("Should encode the arguments of reaction routes", async () => {
+		const [API, CALLS] = router();
+		const MESSAGE = API.channels("81384788765712384").messages("1234567890123456789");
+		const PATH = "/channels/81384788765712384/messages/1234567890123456789/reactions";
+
+		await MESSAGE.reactions("kodkord:1234567890123456789")("@me").delete();
+		await MESSAGE.reactions("a/b?c#d").get();
+
+		expect(CALLS.map(([, route]) => route)).toEqual([
+			`${PATH}/kodkord%3A1234567890123456789/@me`,
+			`${PATH}/a%2Fb%3Fc%23d`
+		]);
+	});
+
+	it("Should write camelCase properties in kebab-case", async () => {
+		const [API, CALLS] = router();
+
+		await API.channels("81384788765712384").messages.bulkDelete.post({ messages: [] });
+		await API.guilds("81384788765712384").auditLogs.get();
+
+		expect(CALLS.map(([, route]) => route)).toEqual([
+			"/channels/81384788765712384/messages/bulk-delete",
+			"/guilds/81384788765712384/audit-logs"
+		]);
+	});
+
+	it("Should convert queries to strings and pass options through", async () => {
+		const [API, CALLS] = router();
+
+		await API.channels("81384788765712384").messages.get({
+			query: { limit: 50, before: undefined },
+			timeout: 1_000
+		});
+
+		expect(CALLS[0][2]).toEqual({ query: { limit: "50" }, timeout: 1_000 });
+	});
+
+	it("Should not be mistaken for a promise", async () => {
+		const [API] = router();
+		const ROUTE = API.users("@me");
+
+		expect(await ROUTE).toBe(ROUTE);
+	});
+});
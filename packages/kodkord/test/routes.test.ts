@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+
+import { normalizeRoute, majorParameter } from "../src/api/routes";
+
+describe("Routes", () => {
+	it("Should keep major parameters and replace other Ids", () => {
+		expect(normalizeRoute("/channels/81384788765712384/messages/1234567890123456789")).toBe(
+			"/channels/81384788765712384/messages/:id"
+		);
+		expect(normalizeRoute("/guilds/81384788765712384/members/1234567890123456789")).toBe(
+			"/guilds/81384788765712384/members/:id"
+		);
+		expect(normalizeRoute("/users/1234567890123456789?with_counts=true")).toBe("/users/:id");
+	});
+
+	it("Should replace reactions and interaction tokens by placeholders", () => {
+		expect(
+			normalizeRoute(
+				"/channels/81384788765712384/messages/1234567890123456789/reactions/%F0%9F%91%8D/@me"
+			)
+		).toBe("/channels/81384788765712384/messages/:id/reactions/:reaction");
+		expect(normalizeRoute("/interactions/1234567890123456789/token/callback")).toBe(
+			"/interactions/:id/:token/callback"
+		);
+	});
+
+	it("Should extract the major parameter of a route", () => {
+		expect(majorParameter("/channels/81384788765712384/messages/1234567890123456789")).toBe(
+			"/channels/81384788765712384"
+		);
+		expect(majorParameter("/guilds/81384788765712384/roles")).toBe("/guilds/81384788765712384");
+		expect(majorParameter("/webhooks/81384788765712384/token/messages/@original")).toBe(
+			"/webhooks/81384788765712384/token"
+		);
+		expect(majorParameter("/users/@me")).toBe("global");
+	});
+});
@@ -0,0 +1,429 @@
+import type {
+	GatewayRequestGuildMembersData,
+	RESTGetAPIGatewayBotResult,
+	GatewayDispatchPayload,
+	GatewayIdentifyData
+} from "discord-api-types/v10";
+import type { AddressInfo } from "node:net";
+
+import {
+	PresenceUpdateStatus,
+	GatewayDispatchEvents,
+	GatewayOpcodes
+} from "discord-api-types/v10";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { type Server, createServer } from "node:http";
+
+import { type DispatchContext, type ClientSettings, Client } from "../src/core/client";
+import { Shard } from "../src/core/shard";
+
+import { Gateway, until } from "./gateway";
+
+let gateway: Gateway;
+let server: Server;
+let clients: Client[] = [];
+
+/** The answer of the fake API to `GET /gateway/bot`. */
+let discovery: RESTGetAPIGatewayBotResult;
+
+/**
+ * Creates a client whose shards connect to the fake gateway.
+ *
+ * @param shards The `shards` setting of the client.
+ * @returns The new client.
+ */
+function client(shards?: ClientSettings["shards"]): Client {
+	const CLIENT = new Client({
+		token: "token",
+		intents: 0,
+		shards,
+		baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+		sweepInterval: 0
+	});
+
+	CLIENT.shards.gateway = gateway.url;
+	clients.push(CLIENT);
+
+	return CLIENT;
+}
+
+/**
+ * Waits for a new connection to the fake gateway and greets it.
+ *
+ * @param connections The number of connections the gateway should have accepted by then.
+ */
+async function hello(connections: number): Promise<void> {
+	await until(() => gateway.sockets.length === connections);
+	gateway.hello();
+}
+
+/**
+ * Returns the shard information of every identify received by the fake gateway.
+ *
+ * @returns The shard information, in the order it was received.
+ */
+function identifies(): GatewayIdentifyData["shard"][] {
+	return gateway.payloads(2).map((payload) => (payload.d as GatewayIdentifyData).shard);
+}
+
+beforeAll(async () => {
+	gateway = await Gateway.start();
+	server = createServer((request, response) => {
+		if (request.url !== "/gateway/bot") {
+			response.writeHead(404).end();
+			return;
+		}
+
+		response.writeHead(200, { "Content-Type": "application/json" });
+		response.end(JSON.stringify(discovery));
+	});
+
+	await new Promise<void>((resolve) => {
+		server.listen(0, "127.0.0.1", resolve);
+	});
+});
+
+afterEach(() => {
+	for (const CLIENT of clients) {
+		for (const SHARD of CLIENT.shards.values()) {
+			SHARD.websocket.disconnect();
+		}
+	}
+
+	clients = [];
+	gateway.received.length = 0;
+	gateway.sockets.length = 0;
+});
+
+afterAll(async () => {
+	server.closeAllConnections();
+	server.close();
+	await gateway.stop();
+});
+
+describe("Sharder", () => {
+	it("Should identify with the shard count at the time of identifying", async () => {
+		const CLIENT = client();
+		const SHARD = CLIENT.shards.create(0, {
+			queue: (identify) => {
+				identify();
+			}
+		});
+
+		SHARD.connect();
+		await hello(1);
+		await until(() => identifies().length === 1);
+
+		CLIENT.shards.reashard(2);
+		SHARD.disconnect();
+		SHARD.connect();
+		await hello(2);
+		await until(() => identifies().length === 2);
+
+		expect(identifies()).toEqual([
+			[0, 1],
+			[0, 2]
+		]);
+	});
+
+	it("Should identify one shard per rate limit key at a time", async () => {
+		const CLIENT = client();
+		const IDENTIFIED: [identified: number, total: number][] = [];
+
+		CLIENT.shards.status.on("identify", (_, identified, total) => {
+			IDENTIFIED.push([identified, total]);
+		});
+
+		CLIENT.shards.reashard(3);
+		CLIENT.shards.concurrency = 2;
+		CLIENT.shards.connect();
+		await until(() => gateway.sockets.length === 3);
+
+		for (const SOCKET of gateway.sockets) {
+			gateway.hello(undefined, SOCKET);
+		}
+
+		await until(() => identifies().length === 2);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 200);
+		});
+
+		// Shards #0 and #2 share a rate limit key, so the latter waits for the identify interval.
+		expect(identifies().sort()).toEqual([
+			[0, 3],
+			[1, 3]
+		]);
+		expect(IDENTIFIED).toEqual([
+			[1, 3],
+			[2, 3]
+		]);
+	});
+
+	it("Should keep identifying the queued shards after one fails to", async () => {
+		const CLIENT = client();
+		const IDENTIFIED: number[] = [];
+
+		CLIENT.shards.reashard(2);
+
+		const [FIRST, SECOND] = [...CLIENT.shards.values()];
+
+		CLIENT.shards.queue(FIRST, () => {
+			throw new Error("Identify failure.");
+		});
+		CLIENT.shards.queue(SECOND, () => {
+			IDENTIFIED.push(SECOND.id);
+			return true;
+		});
+		await until(() => IDENTIFIED.length === 1);
+
+		expect(IDENTIFIED).toEqual([1]);
+	});
+
+	it("Should average the latency of the shards that measured it", () => {
+		const CLIENT = client();
+
+		CLIENT.shards.reashard(3);
+
+		const [FIRST, SECOND, THIRD] = [...CLIENT.shards.values()];
+
+		expect(CLIENT.shards.ping).toBe(-1);
+
+		FIRST.websocket.latency = 100;
+		SECOND.websocket.latency = 51;
+
+		// The third shard hasn't received a heartbeat acknowledgement yet.
+		expect(THIRD.ping).toBe(-1);
+		expect(CLIENT.shards.ping).toBe(76);
+	});
+
+	it("Should queue forced identifies behind the identify interval", async () => {
+		const CLIENT = client();
+		const QUEUED: number[] = [];
+		const SHARD = CLIENT.shards.create(0);
+
+		CLIENT.shards.status.on("queue", (_, pending) => {
+			QUEUED.push(pending);
+		});
+
+		SHARD.connect();
+		await hello(1);
+		await until(() => identifies().length === 1);
+
+		CLIENT.shards.forceIdentify(0);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 100);
+		});
+
+		expect(QUEUED).toEqual([1, 1]);
+		expect(identifies()).toHaveLength(1);
+	});
+
+	it("Should connect shards forced to identify before they are connected", async () => {
+		const CLIENT = client();
+
+		CLIENT.shards.forceIdentify(0);
+		await hello(1);
+		await until(() => identifies().length === 1);
+
+		expect(identifies()).toEqual([[0, 1]]);
+	});
+
+	it("Should create the shards recommended by Discord", async () => {
+		discovery = {
+			url: gateway.url,
+			shards: 2,
+			session_start_limit: { total: 1_000, remaining: 999, reset_after: 0, max_concurrency: 2 }
+		};
+
+		const CLIENT = client("auto");
+		// The address returned by Discord replaces the default one.
+		CLIENT.shards.gateway = "ws://127.0.0.1:1";
+		await CLIENT.connect();
+
+		expect(CLIENT.shards.size).toBe(2);
+		expect(CLIENT.shards.gateway).toBe(gateway.url);
+		expect(CLIENT.shards.concurrency).toBe(2);
+		expect(CLIENT.shards.sessionStartLimit).toEqual(discovery.session_start_limit);
+
+		await until(() => gateway.sockets.length === 2);
+
+		for (const SOCKET of gateway.sockets) {
+			gateway.hello(undefined, SOCKET);
+		}
+
+		// Shards with different rate limit keys identify at the same time.
+		await until(() => identifies().length === 2);
+
+		expect(identifies().sort()).toEqual([
+			[0, 2],
+			[1, 2]
+		]);
+	});
+
+	it("Should connect existing shards to the address of the sharder at that time", async () => {
+		const CLIENT = client();
+
+		CLIENT.shards.gateway = "ws://127.0.0.1:1";
+
+		const SHARD = CLIENT.shards.create(0);
+
+		CLIENT.shards.gateway = gateway.url;
+		SHARD.connect();
+		await hello(1);
+		await until(() => identifies().length === 1);
+
+		expect(SHARD.websocket.settings.url).toBe(gateway.url);
+	});
+
+	it("Should refuse to start without enough session starts left", async () => {
+		discovery = {
+			url: gateway.url,
+			shards: 2,
+			session_start_limit: { total: 1_000, remaining: 1, reset_after: 1_000, max_concurrency: 1 }
+		};
+
+		const CLIENT = client("auto");
+
+		await expect(CLIENT.connect()).rejects.toThrow("session starts left");
+		expect(CLIENT.shards.size).toBe(0);
+		expect(gateway.sockets).toHaveLength(0);
+	});
+
+	it("Should send client-wide presence updates through every shard", async () => {
+		const CLIENT = client();
+
+		CLIENT.shards.reashard(2);
+		CLIENT.shards.concurrency = 2;
+		CLIENT.shards.connect();
+		await until(() => gateway.sockets.length === 2);
+
+		for (const SOCKET of gateway.sockets) {
+			gateway.hello(undefined, SOCKET);
+		}
+
+		await until(() => identifies().length === 2);
+		CLIENT.setPresence({ status: PresenceUpdateStatus.Idle });
+		await until(() => gateway.payloads(GatewayOpcodes.PresenceUpdate).length === 2);
+
+		const CONNECTIONS = gateway.received
+			.filter(([payload]) => payload.op === GatewayOpcodes.PresenceUpdate)
+			.map(([, connection]) => connection);
+
+		expect(CONNECTIONS.sort()).toEqual([0, 1]);
+		expect(() => CLIENT.setPresence({ status: "away" as PresenceUpdateStatus })).toThrow();
+	});
+
+	it("Should request guild members through the shard of the guild", async () => {
+		const CLIENT = client();
+		// The guild belongs to shard #1 out of 2.
+		const GUILD = String(1n << 22n);
+
+		expect(Shard.calculateId(GUILD, 2)).toBe(1);
+
+		CLIENT.shards.reashard(2);
+		CLIENT.shards.concurrency = 2;
+		CLIENT.shards.connect();
+		await until(() => gateway.sockets.length === 2);
+
+		for (const SOCKET of gateway.sockets) {
+			gateway.hello(undefined, SOCKET);
+		}
+
+		await until(() => identifies().length === 2);
+
+		const RESULT = CLIENT.shards.get(0)?.requestGuildMembers({ guildId: GUILD, userIds: ["2"] });
+		await until(() => gateway.payloads(GatewayOpcodes.RequestGuildMembers).length === 1);
+
+		const [[REQUEST, CONNECTION]] = gateway.received.filter(
+			([payload]) => payload.op === GatewayOpcodes.RequestGuildMembers
+		);
+		const [[IDENTIFY]] = gateway.received.filter(
+			([payload, connection]) => payload.op === GatewayOpcodes.Identify && connection === CONNECTION
+		);
+		const CHUNK = {
+			op: GatewayOpcodes.Dispatch,
+			t: GatewayDispatchEvents.GuildMembersChunk,
+			s: 2,
+			d: {
+				guild_id: GUILD,
+				members: [],
+				chunk_index: 0,
+				chunk_count: 1,
+				not_found: ["2"],
+				nonce: (REQUEST.d as GatewayRequestGuildMembersData).nonce
+			}
+		};
+
+		expect((IDENTIFY.d as GatewayIdentifyData).shard).toEqual([1, 2]);
+
+		gateway.send(CHUNK as GatewayDispatchPayload, gateway.sockets[CONNECTION]);
+
+		expect(await RESULT).toEqual({ members: [], presences: [], notFound: ["2"] });
+	});
+
+	it("Should pass the shard, sequence and receive time to dispatch listeners", async () => {
+		const CLIENT = client();
+		const SHARD = CLIENT.shards.create(0);
+		const RECEIVED: [data: unknown, context: DispatchContext][] = [];
+		const START = Date.now();
+
+		CLIENT.events.on(GatewayDispatchEvents.TypingStart, (data, context) => {
+			RECEIVED.push([data, context]);
+		});
+
+		SHARD.connect();
+		await hello(1);
+		await until(() => identifies().length === 1);
+		gateway.dispatch(GatewayDispatchEvents.TypingStart, { channel_id: "1" }, 7);
+		await until(() => RECEIVED.length === 1);
+
+		const [[DATA, CONTEXT]] = RECEIVED;
+
+		expect(DATA).toEqual({ channel_id: "1" });
+		expect(CONTEXT.shard).toBe(SHARD);
+		expect(CONTEXT.sequence).toBe(7);
+		expect(CONTEXT.timestamp).toBeGreaterThanOrEqual(START);
+		expect(CONTEXT.timestamp).toBeLessThanOrEqual(Date.now());
+	});
+
+	it("Should emit the ready event once every shard is ready", async () => {
+		const CLIENT = client();
+		const READY: string[] = [];
+
+		CLIENT.events.on("shardReady", (shard) => {
+			READY.push(`shard #${shard.id}`);
+		});
+		CLIENT.events.on("ready", () => {
+			READY.push("client");
+		});
+
+		CLIENT.shards.reashard(2);
+		CLIENT.shards.concurrency = 2;
+		CLIENT.shards.connect();
+		await until(() => gateway.sockets.length === 2);
+
+		for (const SOCKET of gateway.sockets) {
+			gateway.hello(undefined, SOCKET);
+		}
+
+		await until(() => identifies().length === 2);
+		gateway.ready("first", gateway.sockets[0]);
+		await until(() => READY.length === 1);
+
+		expect(READY).toHaveLength(1);
+
+		gateway.ready("second", gateway.sockets[1]);
+		await until(() => READY.length === 3);
+
+		expect(READY.sort()).toEqual(["client", "shard #0", "shard #1"]);
+
+		// A new session of an already ready shard doesn't emit the event again.
+		gateway.ready("third", gateway.sockets[0]);
+		await until(() => READY.length === 4);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 50);
+		});
+
+		expect(READY.filter((event) => event === "client")).toEqual(["client"]);
+	});
+});
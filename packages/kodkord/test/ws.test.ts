@@ -0,0 +1,412 @@
+import {
+	setSystemTime,
+	afterEach,
+	beforeAll,
+	afterAll,
+	describe,
+	expect,
+	spyOn,
+	it
+} from "bun:test";
+import {
+	type GatewayPresenceUpdateData,
+	type GatewayReceivePayload,
+	type GatewayIdentifyData,
+	type GatewaySendPayload,
+	GatewayDispatchEvents,
+	PresenceUpdateStatus,
+	GatewayCloseCodes,
+	GatewayOpcodes
+} from "discord-api-types/v10";
+
+import { GATEWAY_SEND_WINDOW, GATEWAY_SEND_LIMIT, type WebSocket } from "../src/api/ws";
+
+import { Gateway, until } from "./gateway";
+
+let gateway: Gateway;
+let socket: WebSocket | undefined;
+
+/**
+ * Connects a new connection to the fake gateway and waits for it to identify.
+ *
+ * @param settings Settings overriding the defaults of the connection.
+ * @returns The identified connection.
+ */
+async function identified(settings?: Parameters<Gateway["socket"]>[0]): Promise<WebSocket> {
+	const IDENTIFIES = gateway.payloads(2).length;
+
+	socket = gateway.socket(settings);
+	socket.connect();
+
+	await until(() => socket?.connected() ?? false);
+	gateway.hello();
+	await until(() => gateway.payloads(2).length > IDENTIFIES);
+
+	return socket;
+}
+
+beforeAll(async () => {
+	gateway = await Gateway.start();
+});
+
+afterEach(() => {
+	socket?.disconnect();
+	socket = undefined;
+	gateway.received.length = 0;
+	gateway.sockets.length = 0;
+	setSystemTime();
+});
+
+afterAll(async () => {
+	await gateway.stop();
+});
+
+describe("WebSocket", () => {
+	it("Should not send more than the limit in a window after being idle", async () => {
+		const WEBSOCKET = await identified();
+		const PAYLOAD: GatewaySendPayload = {
+			op: GatewayOpcodes.RequestGuildMembers,
+			d: { guild_id: "1", query: "", limit: 0 }
+		};
+
+		for (let i = 0; i < 10; i++) {
+			WEBSOCKET.send(PAYLOAD);
+		}
+
+		await until(() => gateway.payloads(8).length === 10);
+
+		// The previous window is over, with most of its sends left unused.
+		setSystemTime(new Date(Date.now() + GATEWAY_SEND_WINDOW + 1_000));
+
+		for (let i = 0; i < 2 * GATEWAY_SEND_LIMIT; i++) {
+			WEBSOCKET.send(PAYLOAD);
+		}
+
+		await until(() => gateway.payloads(8).length >= 10 + GATEWAY_SEND_LIMIT - 5);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 100);
+		});
+
+		expect(gateway.payloads(8).length - 10).toBeLessThanOrEqual(GATEWAY_SEND_LIMIT);
+	});
+
+	it("Should keep sending heartbeats once the queue is exhausted", async () => {
+		const HEARTBEAT = { op: GatewayOpcodes.Heartbeat, d: null, s: null, t: null };
+		const WEBSOCKET = await identified();
+		const PAYLOAD: GatewaySendPayload = {
+			op: GatewayOpcodes.RequestGuildMembers,
+			d: { guild_id: "1", query: "", limit: 0 }
+		};
+
+		for (let i = 0; i < 2 * GATEWAY_SEND_LIMIT; i++) {
+			WEBSOCKET.send(PAYLOAD);
+		}
+
+		await until(() => gateway.payloads(8).length >= GATEWAY_SEND_LIMIT - 5);
+		gateway.send(HEARTBEAT as GatewayReceivePayload);
+		await until(() => gateway.payloads(GatewayOpcodes.Heartbeat).length === 1);
+
+		expect(gateway.payloads(8).length).toBeLessThan(GATEWAY_SEND_LIMIT);
+	});
+
+	it("Should identify with the properties, shard and presence of the settings", async () => {
+		await identified({
+			intents: 513,
+			os: "macos",
+			shard: [1, 4],
+			largeThreshold: 100,
+			presence: { since: null, activities: [], status: PresenceUpdateStatus.Idle, afk: false }
+		});
+
+		expect(gateway.payloads(GatewayOpcodes.Identify)[0].d).toEqual({
+			token: "token",
+			intents: 513,
+			properties: { os: "macos", browser: "kodkord", device: "kodkord" },
+			shard: [1, 4],
+			presence: { since: null, activities: [], status: PresenceUpdateStatus.Idle, afk: false },
+			large_threshold: 100,
+			compress: false
+		});
+	});
+
+	it("Should only send the latest presence set before identifying", async () => {
+		const WEBSOCKET = gateway.socket();
+		socket = WEBSOCKET;
+
+		WEBSOCKET.setPresence({ status: PresenceUpdateStatus.Idle });
+		WEBSOCKET.connect();
+		await until(() => WEBSOCKET.connected());
+
+		WEBSOCKET.setPresence({ status: PresenceUpdateStatus.DoNotDisturb });
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Identify).length === 1);
+
+		WEBSOCKET.setPresence({ status: PresenceUpdateStatus.Invisible });
+		await until(() => gateway.payloads(GatewayOpcodes.PresenceUpdate).length === 1);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 50);
+		});
+
+		const [IDENTIFY] = gateway.payloads(GatewayOpcodes.Identify);
+		const UPDATES = gateway.payloads(GatewayOpcodes.PresenceUpdate);
+
+		expect((IDENTIFY.d as GatewayIdentifyData).presence?.status).toBe(
+			PresenceUpdateStatus.DoNotDisturb
+		);
+		expect(UPDATES.map((update) => (update.d as GatewayPresenceUpdateData).status)).toEqual([
+			PresenceUpdateStatus.Invisible
+		]);
+	});
+
+	it("Should apply the presence again after resuming", async () => {
+		const WEBSOCKET = await identified({ reconnect: { delay: 10, jitter: 0 } });
+
+		gateway.ready();
+		WEBSOCKET.setPresence({ status: PresenceUpdateStatus.Idle });
+		await until(() => gateway.payloads(GatewayOpcodes.PresenceUpdate).length === 1);
+
+		gateway.close(GatewayCloseCodes.UnknownError);
+		await until(() => gateway.sockets.length === 2);
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Resume).length === 1);
+		gateway.dispatch(GatewayDispatchEvents.Resumed, {}, 2);
+		await until(() => gateway.payloads(GatewayOpcodes.PresenceUpdate).length === 2);
+
+		expect(gateway.received.at(-1)).toEqual([
+			{
+				op: GatewayOpcodes.PresenceUpdate,
+				d: { since: null, activities: [], status: PresenceUpdateStatus.Idle, afk: false }
+			},
+			1
+		]);
+	});
+
+	it("Should emit every received payload through the raw event", async () => {
+		const WEBSOCKET = gateway.socket();
+		const OPCODES: number[] = [];
+		socket = WEBSOCKET;
+
+		WEBSOCKET.settings.events.on("raw", (payload) => {
+			OPCODES.push(payload.op);
+		});
+		WEBSOCKET.connect();
+		await until(() => WEBSOCKET.connected());
+
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Identify).length === 1);
+		gateway.ready();
+		await until(() => OPCODES.length === 2);
+
+		expect(OPCODES).toEqual([GatewayOpcodes.Hello, GatewayOpcodes.Dispatch]);
+	});
+
+	it("Should resume the session after the connection closes", async () => {
+		const WEBSOCKET = await identified({ reconnect: { delay: 10, jitter: 0 } });
+		const SEQUENCES: number[] = [];
+
+		WEBSOCKET.settings.events.on(GatewayDispatchEvents.TypingStart, (_, context) => {
+			SEQUENCES.push(context.sequence);
+		});
+
+		gateway.ready();
+		gateway.dispatch(GatewayDispatchEvents.TypingStart, {}, 5);
+		await until(() => SEQUENCES.length === 1);
+
+		gateway.close(GatewayCloseCodes.UnknownError);
+		await until(() => gateway.sockets.length === 2);
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Resume).length === 1);
+
+		expect(gateway.payloads(GatewayOpcodes.Resume)[0].d).toEqual({
+			token: "token",
+			session_id: "session",
+			seq: 5
+		});
+		expect(gateway.payloads(GatewayOpcodes.Identify)).toHaveLength(1);
+	});
+
+	it("Should emit the lifecycle events of a resume", async () => {
+		const WEBSOCKET = await identified({ reconnect: { delay: 10, jitter: 0 } });
+		const EVENTS: unknown[][] = [];
+
+		WEBSOCKET.settings.events.on("shardDisconnect", (_, code) => {
+			EVENTS.push(["shardDisconnect", code]);
+		});
+		WEBSOCKET.settings.events.on("shardReconnecting", (_, delay) => {
+			EVENTS.push(["shardReconnecting", delay]);
+		});
+		WEBSOCKET.settings.events.on("shardResume", () => {
+			EVENTS.push(["shardResume"]);
+		});
+
+		gateway.ready();
+		gateway.close(GatewayCloseCodes.UnknownError);
+		await until(() => gateway.sockets.length === 2);
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Resume).length === 1);
+		gateway.dispatch(GatewayDispatchEvents.Resumed, {}, 2);
+		await until(() => EVENTS.length === 3);
+
+		expect(EVENTS).toEqual([
+			["shardDisconnect", GatewayCloseCodes.UnknownError],
+			["shardReconnecting", 10],
+			["shardResume"]
+		]);
+	});
+
+	it("Should resume invalidated sessions that are resumable on a new connection", async () => {
+		const INVALID = { op: GatewayOpcodes.InvalidSession, d: true, s: null, t: null };
+		const WEBSOCKET = await identified();
+		const RESUMABLE: boolean[] = [];
+
+		WEBSOCKET.settings.events.on("invalidSession", (_, resumable) => {
+			RESUMABLE.push(resumable);
+		});
+
+		gateway.ready();
+		gateway.send(INVALID as GatewayReceivePayload);
+		await until(() => gateway.sockets.length === 2 && WEBSOCKET.connected());
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Resume).length === 1);
+
+		expect(RESUMABLE).toEqual([true]);
+		expect(gateway.received.at(-1)?.[1]).toBe(1);
+	});
+
+	it("Should not identify on a stale connection after an invalid session", async () => {
+		const INVALID = { op: GatewayOpcodes.InvalidSession, d: false, s: null, t: null };
+		const RANDOM = spyOn(Math, "random").mockReturnValue(0);
+		const WEBSOCKET = await identified({ reconnect: { delay: 10, jitter: 0 } });
+
+		const INVALIDATED = WEBSOCKET.settings.events.waitFor("invalidSession");
+
+		gateway.ready();
+		gateway.send(INVALID as GatewayReceivePayload);
+		await INVALIDATED;
+
+		// The session is invalidated, so neither of these is sent on it.
+		WEBSOCKET.setPresence({ status: PresenceUpdateStatus.Idle });
+		WEBSOCKET.send({
+			op: GatewayOpcodes.RequestGuildMembers,
+			d: { guild_id: "1", query: "", limit: 0 }
+		});
+
+		gateway.close(GatewayCloseCodes.UnknownError);
+		await until(() => gateway.sockets.length === 2 && WEBSOCKET.connected());
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.RequestGuildMembers).length === 1);
+
+		// Past the delay of the identify scheduled by the invalid session.
+		await new Promise((resolve) => {
+			setTimeout(resolve, 1_200);
+		});
+		RANDOM.mockRestore();
+
+		const CONNECTIONS = (op: GatewayOpcodes): number[] =>
+			gateway.received.filter(([payload]) => payload.op === op).map(([, connection]) => connection);
+
+		expect(CONNECTIONS(GatewayOpcodes.Identify)).toEqual([0, 1]);
+		expect(CONNECTIONS(GatewayOpcodes.RequestGuildMembers)).toEqual([1]);
+		expect(CONNECTIONS(GatewayOpcodes.PresenceUpdate)).toEqual([]);
+	});
+
+	it("Should resume the session when asked to reconnect", async () => {
+		const RECONNECT = { op: GatewayOpcodes.Reconnect, d: null, s: null, t: null };
+		await identified();
+
+		gateway.ready();
+		gateway.send(RECONNECT as GatewayReceivePayload);
+		await until(() => gateway.sockets.length === 2);
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Resume).length === 1);
+
+		expect(gateway.payloads(GatewayOpcodes.Resume)[0].d).toMatchObject({ seq: 1 });
+		expect(gateway.payloads(GatewayOpcodes.Identify)).toHaveLength(1);
+	});
+
+	it("Should back off exponentially until the reconnection attempts run out", async () => {
+		const WEBSOCKET = await identified({
+			reconnect: { delay: 20, maxDelay: 1_000, jitter: 0, attempts: 2 }
+		});
+		const DELAYS: number[] = [];
+		const ERRORS: Error[] = [];
+
+		WEBSOCKET.settings.events.on("shardReconnecting", (_, delay) => {
+			DELAYS.push(delay);
+		});
+		WEBSOCKET.settings.events.on("error", (error) => {
+			ERRORS.push(error);
+		});
+
+		for (let i = 1; i <= 3; i++) {
+			await until(() => gateway.sockets.length === i && WEBSOCKET.connected());
+			gateway.close(GatewayCloseCodes.UnknownError);
+		}
+
+		await until(() => ERRORS.length === 1);
+
+		expect(DELAYS).toEqual([20, 40]);
+		expect(ERRORS[0].message).toContain("after 2 attempts");
+	});
+
+	it("Should stop reconnecting after a fatal close code", async () => {
+		const WEBSOCKET = await identified({ reconnect: { delay: 10, jitter: 0 } });
+		const CODES: number[] = [];
+		const ERRORS: Error[] = [];
+
+		WEBSOCKET.settings.events.on("shardDisconnect", (_, code) => {
+			CODES.push(code);
+		});
+		WEBSOCKET.settings.events.on("error", (error) => {
+			ERRORS.push(error);
+		});
+
+		gateway.close(GatewayCloseCodes.AuthenticationFailed);
+		await until(() => ERRORS.length === 1);
+		await new Promise((resolve) => {
+			setTimeout(resolve, 100);
+		});
+
+		expect(CODES).toEqual([GatewayCloseCodes.AuthenticationFailed]);
+		expect(gateway.sockets).toHaveLength(1);
+	});
+
+	it("Should identify again after a close code invalidating the session", async () => {
+		await identified({ reconnect: { delay: 10, jitter: 0 } });
+
+		gateway.ready();
+		gateway.close(GatewayCloseCodes.InvalidSeq);
+		await until(() => gateway.sockets.length === 2);
+		gateway.hello();
+		await until(() => gateway.payloads(GatewayOpcodes.Identify).length === 2);
+
+		expect(gateway.payloads(GatewayOpcodes.Resume)).toHaveLength(0);
+	});
+
+	it("Should measure the latency of acknowledged heartbeats", async () => {
+		const HEARTBEAT = { op: GatewayOpcodes.Heartbeat, d: null, s: null, t: null };
+		const ACK = { op: GatewayOpcodes.HeartbeatAck, s: null, t: null };
+		const WEBSOCKET = await identified();
+
+		expect(WEBSOCKET.latency).toBe(-1);
+
+		gateway.send(HEARTBEAT as GatewayReceivePayload);
+		await until(() => gateway.payloads(GatewayOpcodes.Heartbeat).length === 1);
+		gateway.send(ACK as GatewayReceivePayload);
+		await until(() => WEBSOCKET.latency >= 0);
+
+		expect(WEBSOCKET.latency).toBeLessThan(1_000);
+	});
+
+	it("Should reconnect when a heartbeat isn't acknowledged", async () => {
+		const WEBSOCKET = gateway.socket({ reconnect: { delay: 10, jitter: 0 } });
+		socket = WEBSOCKET;
+
+		WEBSOCKET.connect();
+		await until(() => WEBSOCKET.connected());
+		gateway.hello(50);
+		await until(() => gateway.sockets.length === 2 && WEBSOCKET.connected());
+
+		expect(gateway.payloads(GatewayOpcodes.Heartbeat)).toHaveLength(1);
+	});
+});